@@ -1,237 +1,566 @@
-import { useState, useMemo, Fragment } from 'react'
-import type { FormEvent } from 'react'
-
-// ── Types ──────────────────────────────────────────────────────────
-
-interface Material {
-  id: string
-  name: string
-  stockLengthMm: number
-}
-
-interface Demand {
-  id: string
-  project: string
-  materialId: string
-  lengthMm: number
-}
-
-interface Pipe {
-  cuts: Demand[]
-  remainingMm: number
-  stockLengthMm: number
-  usableMm: number
-}
-
-type CutPlan = Record<string, Pipe[]>
-
-interface AggregatedDemand {
-  key: string
-  project: string
-  materialId: string
-  lengthMm: number
-  count: number
-  ids: string[]
-}
+import { useMemo, useState, Fragment } from 'react'
+import type { DragEvent, FormEvent } from 'react'
+import type {
+  CutPlan,
+  Demand,
+  JobData,
+  Material,
+  OptimizeProgress,
+  Pipe,
+  OptimizeResult,
+  Remnant,
+  SolverSettings,
+  SplitSettings,
+  StockVariant,
+  UnassignedReason,
+} from './core/types'
+import {
+  DEFAULT_END_WASTE_MM,
+  DEFAULT_JOINT_ALLOWANCE_MM,
+  DEFAULT_KERF_MM,
+  DEFAULT_MIN_REMNANT_MM,
+  DEFAULT_MIN_SEGMENT_MM,
+  DEFAULT_START_WASTE_MM,
+} from './core/constants'
+import { barPrice, maxUsableLength, usableLength } from './core/materials'
+import { planCosts } from './core/costs'
+import { aggregateDemands } from './core/aggregate'
+import type { AggregatedDemand } from './core/aggregate'
+import { cutPatterns, planWeights, purchaseList, purchaseTotal } from './core/summary'
+import { orderShortfall } from './core/shortage'
+import { parseMinLength, shortestLength } from './core/tolerance'
+import { moveCut } from './core/editing'
+import { changedPipes, isLockedPipe } from './core/locking'
+import type { MoveResult, MoveTarget } from './core/editing'
+import { offcutLength } from './core/remnants'
+import {
+  editableLength,
+  entryUnit,
+  formatCutLength,
+  formatMm,
+  formatPrice,
+  formatTotalLength,
+  getDisplayUnits,
+  formatNumber,
+  formatPercent,
+  lengthUnitLabel,
+  parseEnteredLength,
+  setDisplayUnits,
+} from './core/format'
+import { setLocale, t } from './core/i18n'
+import type { Locale, MessageKey } from './core/i18n'
+import { splitDemand } from './core/splitting'
+import { useOptimizer } from './useOptimizer'
+import { useJobs } from './useJobs'
+import { useHistory } from './useHistory'
+import { useComparison } from './useComparison'
+import type { ComparisonState } from './useComparison'
+import { nextId } from './ids'
+import { JobBar } from './components/JobBar'
+import { DemandImport } from './components/DemandImport'
+import { LabelSheets } from './components/LabelSheets'
+import { CutList } from './components/CutList'
+import { ProjectSeparation } from './components/ProjectSeparation'
+import { HistoryBar } from './components/HistoryBar'
+import { InlineEdit } from './components/InlineEdit'
+import { StrategyComparison } from './components/StrategyComparison'
+import { DisplaySettings } from './components/DisplaySettings'
+import { DecimalInput } from './components/DecimalInput'
+import { ProjectPriorities } from './components/ProjectPriorities'
+import { MaterialCatalog, describePipe } from './components/MaterialCatalog'
+import { QuickEntry } from './components/QuickEntry'
+import { catalogEntryFrom } from './core/catalog'
+import type { CatalogEntry } from './core/catalog'
+import { loadCatalog, loadDisplayUnits, loadLocale, saveCatalog, saveDisplayUnits, saveLocale } from './preferences'
+import { parseDecimal, parseLength } from './core/units'
+import type { DisplayUnits, LengthUnit } from './core/units'
+import { createJobFile } from './core/jobFile'
+import type { JobFile } from './core/jobFile'
 
 // ── Constants ──────────────────────────────────────────────────────
 
-const FIXED_WASTE = 110
-const KERF = 2
-
 const PROJECT_COLORS = [
   '#3b82f6', '#10b981', '#8b5cf6', '#ec4899', '#06b6d4',
   '#84cc16', '#f97316', '#14b8a6', '#a855f7', '#f43f5e',
   '#6366f1', '#22d3ee', '#eab308', '#e879f9', '#2dd4bf',
 ]
 
-let idCounter = 0
-function nextId(): string {
-  return String(++idCounter)
-}
-
-// ── Algorithm ──────────────────────────────────────────────────────
+// ── Helpers ────────────────────────────────────────────────────────
 
-function optimize(materials: Material[], demands: Demand[]): CutPlan {
-  const materialMap = new Map(materials.map(m => [m.id, m]))
-  const grouped = new Map<string, Demand[]>()
+function getProjectColorMap(demands: Demand[]): Map<string, string> {
+  const projects = [...new Set(demands.map(d => d.project))]
+  const map = new Map<string, string>()
+  projects.forEach((p, i) => map.set(p, PROJECT_COLORS[i % PROJECT_COLORS.length]))
+  return map
+}
 
-  for (const d of demands) {
-    const list = grouped.get(d.materialId) ?? []
-    list.push(d)
-    grouped.set(d.materialId, list)
+// Letters that tie the segments of one split piece together across pipes
+function getJointLabels(plan: CutPlan): Map<string, string> {
+  const labels = new Map<string, string>()
+  for (const pipes of Object.values(plan)) {
+    for (const pipe of pipes) {
+      for (const cut of pipe.cuts) {
+        if (!cut.segment || labels.has(cut.segment.parentId)) continue
+        const n = labels.size
+        labels.set(cut.segment.parentId, String.fromCharCode(65 + (n % 26)) + (n >= 26 ? Math.floor(n / 26) : ''))
+      }
+    }
   }
+  return labels
+}
 
-  const plan: CutPlan = {}
-
-  for (const [materialId, pieces] of grouped) {
-    const mat = materialMap.get(materialId)
-    if (!mat) continue
-
-    const usable = mat.stockLengthMm - FIXED_WASTE
-    const sorted = [...pieces].sort((a, b) => b.lengthMm - a.lengthMm)
-    const pipes: Pipe[] = []
+function materialSummary(m: Material): string {
+  return t('material.summary', {
+    kerf: formatNumber(m.kerfMm, 1),
+    start: formatNumber(m.startWasteMm, 1),
+    end: formatNumber(m.endWasteMm, 1),
+  })
+}
 
-    for (const piece of sorted) {
-      if (piece.lengthMm > usable) continue
+function segmentTag(cut: Demand, jointLabels: Map<string, string>): string {
+  if (!cut.segment) return ''
+  return `${jointLabels.get(cut.segment.parentId)}${cut.segment.index}/${cut.segment.count}`
+}
 
-      const needed = piece.lengthMm + KERF
-      let bestIdx = -1
-      let bestRemaining = Infinity
+// A plan that came with an imported file or was edited by hand rather than
+// coming from the optimizer.
+function fixedResult(
+  plan: CutPlan,
+  materials: Material[],
+  demands: Demand[],
+  lowerBounds: Record<string, number>,
+): OptimizeResult {
+  const planned = new Set(Object.values(plan).flatMap(pipes => pipes.flatMap(p => p.cuts.map(c => c.segment?.parentId ?? c.id))))
+  const materialMap = new Map(materials.map(m => [m.id, m]))
+  const unassigned = demands
+    .filter(d => !planned.has(d.id) && materialMap.has(d.materialId))
+    .map(d => ({
+      demand: d,
+      reason: (shortestLength(d) > maxUsableLength(materialMap.get(d.materialId)!) ? 'too-long' : 'no-stock') as UnassignedReason,
+    }))
+  return { plan, lowerBounds, unassigned }
+}
 
-      for (let i = 0; i < pipes.length; i++) {
-        const pipe = pipes[i]
-        if (pipe.remainingMm >= needed && pipe.remainingMm < bestRemaining) {
-          bestIdx = i
-          bestRemaining = pipe.remainingMm
-        }
-      }
+// ── MaterialStep ───────────────────────────────────────────────────
 
-      if (bestIdx >= 0) {
-        pipes[bestIdx].cuts.push(piece)
-        pipes[bestIdx].remainingMm -= needed
-      } else {
-        pipes.push({
-          cuts: [piece],
-          remainingMm: usable - needed,
-          stockLengthMm: mat.stockLengthMm,
-          usableMm: usable,
-        })
-      }
-    }
+function parseStock(length: string, price: string, available: string): StockVariant | null {
+  const lengthMm = parseEnteredLength(length)
+  const priceValue = price.trim() === '' ? undefined : parseDecimal(price)
+  const availableValue = available.trim() === '' ? undefined : parseInt(available)
+  if (isNaN(lengthMm) || lengthMm <= 0) return null
+  if (priceValue !== undefined && (isNaN(priceValue) || priceValue <= 0)) return null
+  if (availableValue !== undefined && (isNaN(availableValue) || availableValue < 0)) return null
+  return { id: nextId(), lengthMm, price: priceValue, available: availableValue }
+}
 
-    // Remove trailing kerf from last cut on each pipe (no cut after last piece)
-    for (const pipe of pipes) {
-      if (pipe.cuts.length > 0) {
-        pipe.remainingMm += KERF
-      }
-    }
+function StockForm({ onAdd }: { onAdd: (s: StockVariant) => void }) {
+  const [length, setLength] = useState('')
+  const [price, setPrice] = useState('')
+  const [available, setAvailable] = useState('')
 
-    plan[materialId] = pipes
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    const stock = parseStock(length, price, available)
+    if (!stock) return
+    onAdd(stock)
+    setLength('')
+    setPrice('')
+    setAvailable('')
   }
 
-  return plan
+  return (
+    <form className="stock-form" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={length}
+        onChange={e => setLength(e.target.value)}
+        placeholder={t('material.stockPlaceholder', { unit: lengthUnitLabel() })}
+      />
+      <input
+        type="text"
+        inputMode="decimal"
+        value={price}
+        onChange={e => setPrice(e.target.value)}
+        placeholder={t('material.price')}
+      />
+      <input
+        type="number"
+        value={available}
+        onChange={e => setAvailable(e.target.value)}
+        placeholder={t('material.available')}
+        min="0"
+      />
+      <button type="submit">{t('material.addStock')}</button>
+    </form>
+  )
 }
 
-// ── Helpers ────────────────────────────────────────────────────────
-
-function getProjectColorMap(demands: Demand[]): Map<string, string> {
-  const projects = [...new Set(demands.map(d => d.project))]
-  const map = new Map<string, string>()
-  projects.forEach((p, i) => map.set(p, PROJECT_COLORS[i % PROJECT_COLORS.length]))
-  return map
-}
+function RemnantForm({ onAdd }: { onAdd: (remnants: Remnant[]) => void }) {
+  const [length, setLength] = useState('')
+  const [count, setCount] = useState('1')
 
-function formatMm(mm: number): string {
-  if (mm >= 1000) {
-    const m = mm / 1000
-    return `${parseFloat(m.toFixed(3))} m`
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    const lengthMm = parseEnteredLength(length)
+    const cnt = parseInt(count)
+    if (!(lengthMm > 0) || isNaN(cnt) || cnt < 1) return
+    onAdd(Array.from({ length: cnt }, () => ({ id: nextId(), lengthMm })))
+    setLength('')
+    setCount('1')
   }
-  return `${mm} mm`
-}
 
-function aggregateDemands(demands: Demand[]): AggregatedDemand[] {
-  const map = new Map<string, AggregatedDemand>()
-  for (const d of demands) {
-    const key = `${d.materialId}|${d.project}|${d.lengthMm}`
-    const existing = map.get(key)
-    if (existing) {
-      existing.count++
-      existing.ids.push(d.id)
-    } else {
-      map.set(key, {
-        key,
-        project: d.project,
-        materialId: d.materialId,
-        lengthMm: d.lengthMm,
-        count: 1,
-        ids: [d.id],
-      })
-    }
-  }
-  return [...map.values()]
+  return (
+    <form className="stock-form" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={length}
+        onChange={e => setLength(e.target.value)}
+        placeholder={t('material.remnantPlaceholder', { unit: lengthUnitLabel() })}
+      />
+      <input
+        type="number"
+        value={count}
+        onChange={e => setCount(e.target.value)}
+        min="1"
+      />
+      <button type="submit">{t('material.addRemnant')}</button>
+    </form>
+  )
 }
 
-// ── MaterialStep ───────────────────────────────────────────────────
+function SplitForm({
+  splitting,
+  onChange,
+}: {
+  splitting?: SplitSettings
+  onChange: (splitting: SplitSettings | undefined) => void
+}) {
+  return (
+    <div className="stock-form split-form">
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={splitting !== undefined}
+          onChange={e => onChange(e.target.checked
+            ? { jointAllowanceMm: DEFAULT_JOINT_ALLOWANCE_MM, minSegmentMm: DEFAULT_MIN_SEGMENT_MM }
+            : undefined)}
+        />
+        {t('material.split')}
+      </label>
+      {splitting && (
+        <>
+          <label className="checkbox-label">
+            {t('material.jointAllowance')}
+            <DecimalInput
+              value={splitting.jointAllowanceMm}
+              onChange={v => onChange({ ...splitting, jointAllowanceMm: v })}
+            />
+          </label>
+          <label className="checkbox-label">
+            {t('material.minSegment')}
+            <DecimalInput
+              value={splitting.minSegmentMm}
+              onChange={v => onChange({ ...splitting, minSegmentMm: v })}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  )
+}
 
 function MaterialStep({
   materials,
+  demands,
   onAdd,
   onDelete,
+  onRename,
+  onAddStock,
+  onSetStockLength,
+  onDeleteStock,
+  onAddRemnants,
+  onDeleteRemnant,
+  onSetSplitting,
 }: {
   materials: Material[]
+  demands: Demand[]
   onAdd: (m: Material) => void
   onDelete: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onAddStock: (materialId: string, stock: StockVariant) => void
+  onSetStockLength: (materialId: string, stockId: string, lengthMm: number) => void
+  onDeleteStock: (materialId: string, stockId: string) => void
+  onAddRemnants: (materialId: string, remnants: Remnant[]) => void
+  onDeleteRemnant: (materialId: string, remnantId: string) => void
+  onSetSplitting: (materialId: string, splitting: SplitSettings | undefined) => void
 }) {
   const [name, setName] = useState('')
   const [stockLength, setStockLength] = useState('')
+  const [price, setPrice] = useState('')
+  const [pricePerMeter, setPricePerMeter] = useState('')
+  const [cutCost, setCutCost] = useState('')
+  const [kerf, setKerf] = useState(() => formatNumber(DEFAULT_KERF_MM, 1))
+  const [startWaste, setStartWaste] = useState(() => formatNumber(DEFAULT_START_WASTE_MM, 1))
+  const [endWaste, setEndWaste] = useState(() => formatNumber(DEFAULT_END_WASTE_MM, 1))
+  const [weight, setWeight] = useState('')
+  const [catalog, setCatalog] = useState(loadCatalog)
+
+  function updateCatalog(entries: CatalogEntry[]) {
+    setCatalog(entries)
+    saveCatalog(entries)
+  }
+
+  // Replaces an entry of the same name, so saving a material again updates it
+  function saveToCatalog(m: Material) {
+    const existing = catalog.find(e => e.name === m.name)
+    const entry = catalogEntryFrom(m, existing?.id ?? `custom-${Date.now().toString(36)}`)
+    updateCatalog(existing ? catalog.map(e => (e === existing ? entry : e)) : [...catalog, entry])
+  }
+
+  // Demands that no longer fit any bar of the material and cannot be split
+  function unplaceable(m: Material): number {
+    const maxUsable = maxUsableLength(m)
+    return demands.filter(d => d.materialId === m.id && shortestLength(d) > maxUsable && !splitDemand(d, m)).length
+  }
 
   function handleSubmit(e: FormEvent) {
     e.preventDefault()
-    const len = parseFloat(stockLength)
-    if (!name.trim() || isNaN(len) || len <= 0) return
-    onAdd({ id: nextId(), name: name.trim(), stockLengthMm: len })
+    const stock = parseStock(stockLength, price, '')
+    const kerfMm = parseDecimal(kerf)
+    const startWasteMm = parseDecimal(startWaste)
+    const endWasteMm = parseDecimal(endWaste)
+    const perMeter = pricePerMeter.trim() === '' ? undefined : parseDecimal(pricePerMeter)
+    const perCut = cutCost.trim() === '' ? undefined : parseDecimal(cutCost)
+    const kgPerMeter = weight.trim() === '' ? undefined : parseDecimal(weight)
+    if (!name.trim() || !stock) return
+    if ([kerfMm, startWasteMm, endWasteMm, perMeter ?? 0, perCut ?? 0].some(v => isNaN(v) || v < 0)) return
+    if (kgPerMeter !== undefined && !(kgPerMeter > 0)) return
+    if (stock.lengthMm - startWasteMm - endWasteMm <= 0) return
+    onAdd({
+      id: nextId(),
+      name: name.trim(),
+      stocks: [stock],
+      remnants: [],
+      kerfMm,
+      startWasteMm,
+      endWasteMm,
+      pricePerMeter: perMeter,
+      cutCost: perCut,
+      pipe: kgPerMeter !== undefined ? { weightPerMeterKg: kgPerMeter } : undefined,
+    })
     setName('')
     setStockLength('')
+    setPrice('')
+    setPricePerMeter('')
+    setCutCost('')
+    setWeight('')
   }
 
   return (
     <div>
-      <h2>Materialien</h2>
+      <h2>{t('material.title')}</h2>
       <div className="card">
+        <MaterialCatalog entries={catalog} onChange={updateCatalog} onAdd={onAdd} />
         <form onSubmit={handleSubmit}>
           <div className="form-row">
             <div className="form-group">
-              <label>Bezeichnung</label>
+              <label>{t('material.name')}</label>
               <input
                 type="text"
                 value={name}
                 onChange={e => setName(e.target.value)}
-                placeholder="z.B. DN50 Kupfer"
+                placeholder={t('material.namePlaceholder')}
               />
             </div>
             <div className="form-group">
-              <label>Rohrl&auml;nge (mm)</label>
+              <label>{t('material.stockLength', { unit: lengthUnitLabel() })}</label>
               <input
-                type="number"
+                type="text"
                 value={stockLength}
                 onChange={e => setStockLength(e.target.value)}
-                placeholder="z.B. 6000"
-                min="1"
+                placeholder={t('common.example', { value: getDisplayUnits().system === 'imperial' ? '20\'' : '6000' })}
+              />
+            </div>
+            <div className="form-group small-input">
+              <label>{t('material.price')}</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={price}
+                onChange={e => setPrice(e.target.value)}
+                placeholder={t('common.optional')}
+              />
+            </div>
+            <div className="form-group small-input">
+              <label>{t('material.pricePerMeter')}</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={pricePerMeter}
+                onChange={e => setPricePerMeter(e.target.value)}
+                placeholder={t('common.optional')}
+              />
+            </div>
+            <div className="form-group small-input">
+              <label>{t('material.cutCost')}</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={cutCost}
+                onChange={e => setCutCost(e.target.value)}
+                placeholder={t('common.optional')}
+              />
+            </div>
+            <div className="form-group small-input">
+              <label>{t('material.kerf')}</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={kerf}
+                onChange={e => setKerf(e.target.value)}
+              />
+            </div>
+            <div className="form-group small-input">
+              <label>{t('material.startWaste')}</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={startWaste}
+                onChange={e => setStartWaste(e.target.value)}
+              />
+            </div>
+            <div className="form-group small-input">
+              <label>{t('material.endWaste')}</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={endWaste}
+                onChange={e => setEndWaste(e.target.value)}
+              />
+            </div>
+            <div className="form-group small-input">
+              <label>{t('material.weight')}</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={weight}
+                onChange={e => setWeight(e.target.value)}
+                placeholder={t('common.optional')}
               />
             </div>
             <button type="submit" className="primary">
-              Hinzuf&uuml;gen
+              {t('common.add')}
             </button>
           </div>
         </form>
       </div>
 
       {materials.length === 0 ? (
-        <p className="empty">Noch keine Materialien angelegt.</p>
+        <p className="empty">{t('material.empty')}</p>
       ) : (
         <div className="card">
           <table>
             <thead>
               <tr>
-                <th>Material</th>
-                <th>Rohrl&auml;nge</th>
-                <th>Nutzbar</th>
+                <th>{t('common.stockLength')}</th>
+                <th>{t('common.price')}</th>
+                <th>{t('material.available')}</th>
+                <th>{t('material.usable')}</th>
                 <th></th>
               </tr>
             </thead>
             <tbody>
               {materials.map(m => (
-                <tr key={m.id}>
-                  <td>{m.name}</td>
-                  <td>{formatMm(m.stockLengthMm)}</td>
-                  <td>{formatMm(m.stockLengthMm - FIXED_WASTE)}</td>
-                  <td>
-                    <button className="danger" onClick={() => onDelete(m.id)}>
-                      &times;
-                    </button>
-                  </td>
-                </tr>
+                <Fragment key={m.id}>
+                  <tr className="group-header">
+                    <td colSpan={4}>
+                      <InlineEdit
+                        value={m.name}
+                        onSave={text => {
+                          if (!text) return false
+                          onRename(m.id, text)
+                          return true
+                        }}
+                      />
+                      <span className="group-meta">
+                        {' '}· {materialSummary(m)}
+                        {m.pricePerMeter !== undefined && ` · ${t('material.perMetre', { price: formatPrice(m.pricePerMeter) })}`}
+                        {m.cutCost !== undefined && ` · ${t('material.perCut', { price: formatPrice(m.cutCost) })}`}
+                        {describePipe(m.pipe) && ` · ${describePipe(m.pipe)}`}
+                      </span>
+                      {unplaceable(m) > 0 && (
+                        <span className="too-long"> — {t('material.unplaceable', { count: unplaceable(m) })}</span>
+                      )}
+                    </td>
+                    <td className="material-actions">
+                      <button onClick={() => saveToCatalog(m)} title={t('catalog.saveHint')}>
+                        {t('catalog.save')}
+                      </button>
+                      <button className="danger" onClick={() => onDelete(m.id)}>
+                        &times;
+                      </button>
+                    </td>
+                  </tr>
+                  {m.stocks.map(s => (
+                    <tr key={s.id}>
+                      <td>
+                        <InlineEdit
+                          value={editableLength(s.lengthMm)}
+                          numeric
+                          onSave={text => {
+                            const lengthMm = parseEnteredLength(text)
+                            if (!(lengthMm - m.startWasteMm - m.endWasteMm > 0)) return false
+                            onSetStockLength(m.id, s.id, lengthMm)
+                            return true
+                          }}
+                        >
+                          {formatMm(s.lengthMm)}
+                        </InlineEdit>
+                      </td>
+                      <td>
+                        {s.price !== undefined
+                          ? formatPrice(s.price)
+                          : m.pricePerMeter !== undefined ? `${formatPrice(barPrice(m, s)!)} (${t('material.perMetre', { price: formatPrice(m.pricePerMeter) })})` : '–'}
+                      </td>
+                      <td>{s.available ?? '∞'}</td>
+                      <td>{formatMm(usableLength(m, s))}</td>
+                      <td>
+                        {m.stocks.length > 1 && (
+                          <button className="danger" onClick={() => onDeleteStock(m.id, s.id)}>
+                            &times;
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td colSpan={5}>
+                      <StockForm onAdd={s => onAddStock(m.id, s)} />
+                    </td>
+                  </tr>
+                  <tr>
+                    <td colSpan={5}>
+                      <div className="remnant-list">
+                        <span className="group-meta">{t('material.remnants')}</span>
+                        {m.remnants.length === 0 && <span className="group-meta">{t('material.noRemnants')}</span>}
+                        {[...m.remnants].sort((a, b) => b.lengthMm - a.lengthMm).map(r => (
+                          <span key={r.id} className="remnant-chip">
+                            {formatMm(r.lengthMm)}
+                            <button className="danger" onClick={() => onDeleteRemnant(m.id, r.id)}>
+                              &times;
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                      <RemnantForm onAdd={rs => onAddRemnants(m.id, rs)} />
+                    </td>
+                  </tr>
+                  <tr>
+                    <td colSpan={5}>
+                      <SplitForm splitting={m.splitting} onChange={sp => onSetSplitting(m.id, sp)} />
+                    </td>
+                  </tr>
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -243,36 +572,57 @@ function MaterialStep({
 
 // ── DemandStep ─────────────────────────────────────────────────────
 
+function lengthExample(unit: LengthUnit): string {
+  const value = unit === 'in' ? '7\' 3-5/8"' : unit === 'm' ? formatNumber(2.5, 1) : '2500'
+  return t('common.example', { value })
+}
+
 function DemandStep({
   materials,
   demands,
   onAdd,
+  onImport,
+  onAddMaterial,
+  onUpdateGroup,
+  onSetGroupCount,
   onDeleteGroup,
   onClearAll,
 }: {
   materials: Material[]
   demands: Demand[]
-  onAdd: (d: Demand) => void
+  onAdd: (list: Demand[]) => void
+  onImport: (demands: Demand[]) => void
+  onAddMaterial: (m: Material) => void
+  onUpdateGroup: (ids: string[], changes: Partial<Pick<Demand, 'project' | 'lengthMm' | 'minLengthMm'>>) => void
+  onSetGroupCount: (ids: string[], count: number) => void
   onDeleteGroup: (ids: string[]) => void
   onClearAll: () => void
 }) {
+  const [showImport, setShowImport] = useState(false)
+  const [quickEntry, setQuickEntry] = useState(false)
   const [project, setProject] = useState('')
   const [materialId, setMaterialId] = useState(materials[0]?.id ?? '')
   const [length, setLength] = useState('')
-  const [unit, setUnit] = useState<'mm' | 'm'>('mm')
+  const [minLength, setMinLength] = useState('')
+  const [unit, setUnit] = useState<LengthUnit>(() => (getDisplayUnits().system === 'imperial' ? 'in' : 'mm'))
   const [count, setCount] = useState('1')
 
   function handleSubmit(e: FormEvent) {
     e.preventDefault()
-    const len = parseFloat(length)
+    const lengthMm = parseLength(length, unit)
+    const minLengthMm = parseMinLength(minLength, lengthMm, unit)
     const cnt = parseInt(count)
-    if (!project.trim() || !materialId || isNaN(len) || len <= 0 || isNaN(cnt) || cnt < 1) return
-
-    const lengthMm = unit === 'm' ? len * 1000 : len
-    for (let i = 0; i < cnt; i++) {
-      onAdd({ id: nextId(), project: project.trim(), materialId, lengthMm })
-    }
+    if (!project.trim() || !materialId || !(lengthMm > 0) || Number.isNaN(minLengthMm) || isNaN(cnt) || cnt < 1) return
+
+    onAdd(Array.from({ length: cnt }, (): Demand => ({
+      id: nextId(),
+      project: project.trim(),
+      materialId,
+      lengthMm,
+      ...(minLengthMm !== undefined ? { minLengthMm } : {}),
+    })))
     setLength('')
+    setMinLength('')
     setCount('1')
   }
 
@@ -287,70 +637,116 @@ function DemandStep({
     groupedByMat.set(agg.materialId, list)
   }
 
+  const projects = [...new Set(demands.map(d => d.project))]
+
   return (
     <div>
-      <h2>Bedarf</h2>
+      <h2>{t('demand.title')}</h2>
       <div className="card">
-        <form onSubmit={handleSubmit}>
-          <div className="form-row">
-            <div className="form-group">
-              <label>Projekt</label>
-              <input
-                type="text"
-                value={project}
-                onChange={e => setProject(e.target.value)}
-                placeholder="z.B. EG Bad"
-              />
-            </div>
-            <div className="form-group">
-              <label>Material</label>
-              <select value={materialId} onChange={e => setMaterialId(e.target.value)}>
-                {materials.map(m => (
-                  <option key={m.id} value={m.id}>{m.name}</option>
-                ))}
-              </select>
-            </div>
-            <div className="form-group">
-              <label>L&auml;nge</label>
-              <input
-                type="number"
-                value={length}
-                onChange={e => setLength(e.target.value)}
-                placeholder={unit === 'mm' ? 'z.B. 2500' : 'z.B. 2.5'}
-                min="0"
-                step={unit === 'm' ? '0.001' : '1'}
-              />
-            </div>
-            <div className="toggle-group">
-              <button type="button" className={unit === 'mm' ? 'active' : ''} onClick={() => setUnit('mm')}>mm</button>
-              <button type="button" className={unit === 'm' ? 'active' : ''} onClick={() => setUnit('m')}>m</button>
-            </div>
-            <div className="form-group count-input">
-              <label>Anzahl</label>
-              <input
-                type="number"
-                value={count}
-                onChange={e => setCount(e.target.value)}
-                min="1"
-              />
+        {quickEntry ? (
+          <QuickEntry
+            materials={materials}
+            projects={projects}
+            defaults={{ project, materialId, unit }}
+            onDefaultsChange={d => {
+              setProject(d.project)
+              setMaterialId(d.materialId)
+            }}
+            onAdd={onAdd}
+            onImport={onImport}
+            onClose={() => setQuickEntry(false)}
+          />
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="form-row">
+              <div className="form-group">
+                <label>{t('common.project')}</label>
+                <input
+                  type="text"
+                  value={project}
+                  onChange={e => setProject(e.target.value)}
+                  placeholder={t('demand.projectPlaceholder')}
+                />
+              </div>
+              <div className="form-group">
+                <label>{t('common.material')}</label>
+                <select value={materialId} onChange={e => setMaterialId(e.target.value)}>
+                  {materials.map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('common.length')}</label>
+                <input
+                  type="text"
+                  inputMode={unit === 'in' ? undefined : 'decimal'}
+                  value={length}
+                  onChange={e => setLength(e.target.value)}
+                  placeholder={lengthExample(unit)}
+                />
+              </div>
+              <div className="toggle-group">
+                <button type="button" className={unit === 'mm' ? 'active' : ''} onClick={() => setUnit('mm')}>mm</button>
+                <button type="button" className={unit === 'm' ? 'active' : ''} onClick={() => setUnit('m')}>m</button>
+                <button type="button" className={unit === 'in' ? 'active' : ''} onClick={() => setUnit('in')}>ft/in</button>
+              </div>
+              <div className="form-group">
+                <label>{t('demand.minLength')}</label>
+                <input
+                  type="text"
+                  inputMode={unit === 'in' ? undefined : 'decimal'}
+                  value={minLength}
+                  onChange={e => setMinLength(e.target.value)}
+                  placeholder={t('demand.minLengthPlaceholder')}
+                  title={t('demand.minLengthHint')}
+                />
+              </div>
+              <div className="form-group count-input">
+                <label>{t('common.count')}</label>
+                <input
+                  type="number"
+                  value={count}
+                  onChange={e => setCount(e.target.value)}
+                  min="1"
+                />
+              </div>
+              <button type="submit" className="primary">
+                {t('common.add')}
+              </button>
+              <button type="button" onClick={() => setQuickEntry(true)}>
+                {t('quick.open')}
+              </button>
+              {!showImport && (
+                <button type="button" onClick={() => setShowImport(true)}>
+                  {t('demand.importTable')}
+                </button>
+              )}
             </div>
-            <button type="submit" className="primary">
-              Hinzuf&uuml;gen
-            </button>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
 
+      {showImport && (
+        <DemandImport
+          materials={materials}
+          onAddMaterial={onAddMaterial}
+          onImport={onImport}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
       {demands.length === 0 ? (
-        <p className="empty">Noch kein Bedarf angelegt.</p>
+        <p className="empty">{t('demand.empty')}</p>
       ) : (
         <div className="card">
           <table>
             <thead>
               <tr>
-                <th>Projekt</th>
-                <th>L&auml;nge</th>
-                <th>Anzahl</th>
+                <th>{t('common.project')}</th>
+                <th>{t('common.length')}</th>
+                <th>{t('demand.minLength')}</th>
+                <th>{t('common.count')}</th>
                 <th></th>
               </tr>
             </thead>
@@ -360,18 +756,76 @@ function DemandStep({
                 return (
                   <Fragment key={matId}>
                     <tr className="group-header">
-                      <td colSpan={4}>{mat?.name ?? matId}</td>
+                      <td colSpan={5}>{mat?.name ?? matId}</td>
                     </tr>
                     {items.map(agg => {
-                      const tooLong = mat ? agg.lengthMm > mat.stockLengthMm - FIXED_WASTE : false
+                      const tooLong = mat ? shortestLength(agg) > maxUsableLength(mat) : false
+                      const parts = tooLong && mat
+                        ? splitDemand({ id: '', project: agg.project, materialId: mat.id, lengthMm: agg.lengthMm }, mat)
+                        : null
                       return (
                         <tr key={agg.key}>
-                          <td>{agg.project}</td>
                           <td>
-                            {formatMm(agg.lengthMm)}
-                            {tooLong && <span className="too-long"> — zu lang!</span>}
+                            <InlineEdit
+                              value={agg.project}
+                              onSave={text => {
+                                if (!text) return false
+                                onUpdateGroup(agg.ids, { project: text })
+                                return true
+                              }}
+                            />
+                          </td>
+                          <td>
+                            <InlineEdit
+                              value={editableLength(agg.lengthMm)}
+                              numeric
+                              title={t('common.editHintUnit', { unit: lengthUnitLabel() })}
+                              onSave={text => {
+                                const lengthMm = parseEnteredLength(text)
+                                if (!(lengthMm > 0)) return false
+                                // The tolerance moves along with the length
+                                const minLengthMm = agg.minLengthMm !== undefined
+                                  ? lengthMm - (agg.lengthMm - agg.minLengthMm)
+                                  : undefined
+                                onUpdateGroup(agg.ids, { lengthMm, minLengthMm: (minLengthMm ?? 0) > 0 ? minLengthMm : undefined })
+                                return true
+                              }}
+                            >
+                              {formatMm(agg.lengthMm)}
+                            </InlineEdit>
+                            {tooLong && (parts
+                              ? <span className="group-meta"> — {t('demand.splitInto', { count: parts.length })}</span>
+                              : <span className="too-long"> — {t('common.tooLong')}</span>)}
+                          </td>
+                          <td>
+                            <InlineEdit
+                              value={agg.minLengthMm !== undefined ? editableLength(agg.minLengthMm) : ''}
+                              numeric
+                              title={t('demand.minLengthHint')}
+                              onSave={text => {
+                                const minLengthMm = parseMinLength(text, agg.lengthMm, entryUnit())
+                                if (Number.isNaN(minLengthMm)) return false
+                                onUpdateGroup(agg.ids, { minLengthMm })
+                                return true
+                              }}
+                            >
+                              {agg.minLengthMm !== undefined ? formatMm(agg.minLengthMm) : '–'}
+                            </InlineEdit>
+                          </td>
+                          <td>
+                            <InlineEdit
+                              value={String(agg.count)}
+                              numeric
+                              onSave={text => {
+                                const count = Number(text)
+                                if (!Number.isInteger(count) || count < 1) return false
+                                onSetGroupCount(agg.ids, count)
+                                return true
+                              }}
+                            >
+                              {agg.count}&times;
+                            </InlineEdit>
                           </td>
-                          <td>{agg.count}&times;</td>
                           <td>
                             <button className="danger" onClick={() => onDeleteGroup(agg.ids)}>
                               &times;
@@ -386,7 +840,7 @@ function DemandStep({
             </tbody>
           </table>
           <div className="action-row">
-            <button className="danger" onClick={onClearAll}>Alle l&ouml;schen</button>
+            <button className="danger" onClick={onClearAll}>{t('demand.clearAll')}</button>
           </div>
         </div>
       )}
@@ -399,82 +853,296 @@ function DemandStep({
 function ResultSection({
   materials,
   demands,
-  results,
+  result,
+  running,
+  progress,
+  settings,
+  onSettingsChange,
+  minRemnantMm,
+  onMinRemnantChange,
+  onAccept,
+  onShowLabels,
+  onShowCutList,
+  onEditPlan,
+  onToggleLock,
+  previousPlan,
+  comparison,
 }: {
   materials: Material[]
   demands: Demand[]
-  results: CutPlan
+  result: OptimizeResult
+  running: boolean
+  progress: OptimizeProgress | null
+  settings: SolverSettings
+  onSettingsChange: (settings: SolverSettings) => void
+  minRemnantMm: number
+  onMinRemnantChange: (mm: number) => void
+  onAccept: () => void
+  onShowLabels: () => void
+  onShowCutList: () => void
+  onEditPlan: (plan: CutPlan) => void
+  onToggleLock: (materialId: string, pipe: Pipe) => void
+  previousPlan: CutPlan | null
+  comparison: ComparisonState
 }) {
+  const [drag, setDrag] = useState<{ materialId: string; pipeIdx: number; cutIdx: number } | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ materialId: string; to: MoveTarget; note: string; ok: boolean } | null>(null)
+  const [moveError, setMoveError] = useState<string | null>(null)
+
   const materialMap = new Map(materials.map(m => [m.id, m]))
   const projectColors = getProjectColorMap(demands)
+  const results = result.plan
+  const jointLabels = getJointLabels(results)
+  const changed = previousPlan ? changedPipes(previousPlan, results) : new Set<string>()
+  const hasLocked = Object.values(results).some(pipes => pipes.some(p => p.locked))
+
+  // ── Drag and drop of cuts between pipes ──
+
+  function tryMove(materialId: string, to: MoveTarget): MoveResult | null {
+    const mat = materialMap.get(materialId)
+    if (!drag || drag.materialId !== materialId || !mat) return null
+    return moveCut(results, mat, { materialId, fromPipe: drag.pipeIdx, cut: drag.cutIdx, to })
+  }
+
+  function endDrag() {
+    setDrag(null)
+    setDropTarget(null)
+  }
+
+  function dragProps(materialId: string, pipeIdx: number, cutIdx: number) {
+    return {
+      draggable: true,
+      onDragStart: (e: DragEvent) => {
+        e.dataTransfer.setData('text/plain', results[materialId][pipeIdx].cuts[cutIdx].id)
+        e.dataTransfer.effectAllowed = 'move'
+        setMoveError(null)
+        setDrag({ materialId, pipeIdx, cutIdx })
+      },
+      onDragEnd: endDrag,
+    }
+  }
+
+  function dropProps(materialId: string, to: MoveTarget) {
+    return {
+      onDragOver: (e: DragEvent) => {
+        const res = tryMove(materialId, to)
+        if (!res || !drag) return
+        if (res.ok) e.preventDefault()
+        if (dropTarget?.materialId === materialId && dropTarget.to === to) return
+        let note = res.ok ? '' : res.error
+        if (res.ok && to !== 'new' && to !== drag.pipeIdx) {
+          const target = results[materialId][to]
+          const piece = results[materialId][drag.pipeIdx].cuts[drag.cutIdx]
+          const kerf = target.cuts.length > 0 ? materialMap.get(materialId)!.kerfMm : 0
+          note = t('pipe.restAfter', { length: formatMm(target.remainingMm - piece.lengthMm - kerf) })
+        }
+        setDropTarget({ materialId, to, note, ok: res.ok })
+      },
+      onDrop: (e: DragEvent) => {
+        e.preventDefault()
+        const res = tryMove(materialId, to)
+        if (res?.ok && res.plan !== results) onEditPlan(res.plan)
+        else if (res && !res.ok) setMoveError(res.error)
+        endDrag()
+      },
+    }
+  }
+
+  function dropClass(materialId: string, to: MoveTarget): string {
+    if (dropTarget?.materialId !== materialId || dropTarget.to !== to) return ''
+    return dropTarget.ok ? 'drop-ok' : 'drop-bad'
+  }
 
   // Compute stats
   let totalPipes = 0
+  let remnantPipes = 0
+  let lowerBound = 0
   let totalStockMm = 0
   let totalUsedMm = 0
-  let totalWasteMm = 0
+  let reusableMm = 0
+  let reusableCount = 0
 
   for (const [materialId, pipes] of Object.entries(results)) {
     const mat = materialMap.get(materialId)
     if (!mat) continue
-    totalPipes += pipes.length
+    lowerBound += result.lowerBounds[materialId] ?? 0
     for (const pipe of pipes) {
+      if (pipe.remnantId) remnantPipes++
+      else totalPipes++
       totalStockMm += pipe.stockLengthMm
       const cutSum = pipe.cuts.reduce((sum, c) => sum + c.lengthMm, 0)
       totalUsedMm += cutSum
-      totalWasteMm += pipe.remainingMm
+      const offcut = offcutLength(pipe, mat)
+      if (offcut >= minRemnantMm) {
+        reusableMm += offcut
+        reusableCount++
+      }
     }
   }
 
   const efficiency = totalStockMm > 0 ? ((totalUsedMm / totalStockMm) * 100) : 0
-
-  // Count too-long pieces
-  const tooLongAgg = aggregateDemands(
-    demands.filter(d => {
-      const mat = materialMap.get(d.materialId)
-      return mat && d.lengthMm > mat.stockLengthMm - FIXED_WASTE
-    })
+  // Everything that is neither a cut piece nor a reusable offcut: kerf, clamping, short ends
+  const scrapMm = totalStockMm - totalUsedMm - reusableMm
+  // With pieces left unplaced the bound only covers part of the demand, so
+  // neither it nor a gap is shown
+  const bounded = result.unassigned.length === 0
+  const gap = Math.max(0, totalPipes - lowerBound)
+  const gapPct = totalPipes > 0 ? (gap / totalPipes) * 100 : 0
+
+  // Unassigned pieces, grouped by reason
+  const unassignedAgg = (['too-long', 'no-stock'] as UnassignedReason[]).flatMap(reason =>
+    aggregateDemands(result.unassigned.filter(u => u.reason === reason).map(u => u.demand))
+      .map(agg => ({ ...agg, reason })),
   )
 
-  // Build cut summary: group pipes by material + cut pattern
-  const summary: { material: string; pattern: string; count: number }[] = []
-  for (const [materialId, pipes] of Object.entries(results)) {
-    const mat = materialMap.get(materialId)
-    if (!mat || pipes.length === 0) continue
-    const patternCounts = new Map<string, number>()
-    for (const pipe of pipes) {
-      const key = pipe.cuts.map(c => formatMm(c.lengthMm)).join(' + ')
-      patternCounts.set(key, (patternCounts.get(key) ?? 0) + 1)
-    }
-    for (const [pattern, count] of patternCounts) {
-      summary.push({ material: mat.name, pattern, count })
-    }
-  }
+  const purchases = purchaseList(results, materials)
+  const summary = cutPatterns(results, materials)
+  const totalPrice = purchaseTotal(purchases)
+  const shortfall = orderShortfall(result.unassigned, materials)
+  const shortfallPrice = purchaseTotal(shortfall)
+  const stockLimited = materials.some(m => m.stocks.some(s => s.available !== undefined))
+  const costs = planCosts(results, materials, minRemnantMm)
+  const weights = planWeights(results, materials, minRemnantMm)
+  const hasCosts = costs.materialCost > 0 || costs.labourCost > 0
 
   return (
-    <div className="result-section">
+    <div className={`result-section ${running ? 'stale' : ''}`}>
       <div className="result-header">
-        <h2>Ergebnis</h2>
-        <button className="print-btn" onClick={() => window.print()}>
-          Als PDF drucken
-        </button>
+        <h2>{t('result.title')}</h2>
+        <div className="result-actions">
+          <div className="toggle-group">
+            <button
+              type="button"
+              className={settings.objective === 'waste' ? 'active' : ''}
+              onClick={() => onSettingsChange({ ...settings, objective: 'waste' })}
+            >
+              {t('result.objectiveWaste')}
+            </button>
+            <button
+              type="button"
+              className={settings.objective === 'cost' ? 'active' : ''}
+              onClick={() => onSettingsChange({ ...settings, objective: 'cost' })}
+            >
+              {t('result.objectiveCost')}
+            </button>
+          </div>
+          <div className="toggle-group">
+            <button
+              type="button"
+              className={settings.mode === 'fast' ? 'active' : ''}
+              onClick={() => onSettingsChange({ ...settings, mode: 'fast' })}
+            >
+              {t('result.modeFast')}
+            </button>
+            <button
+              type="button"
+              className={settings.mode === 'exact' ? 'active' : ''}
+              onClick={() => onSettingsChange({ ...settings, mode: 'exact' })}
+            >
+              {t('result.modeExact')}
+            </button>
+          </div>
+          <button className="print-btn" onClick={onShowCutList}>
+            {t('result.cutList')}
+          </button>
+          <button className="print-btn" onClick={onShowLabels}>
+            {t('result.labels')}
+          </button>
+          <button className="print-btn" onClick={() => window.print()}>
+            {t('result.print')}
+          </button>
+        </div>
       </div>
 
-      {summary.length > 0 && (
+      {moveError && <p className="calc-status error">{moveError}</p>}
+      {changed.size > 0 && (
+        <p className="calc-status">{t('result.changed', { count: changed.size })}</p>
+      )}
+
+      {running && (
+        <div className="calc-status">
+          {t('common.calculating')}
+          {progress && progress.total > 0 && ` ${t('result.progress', { done: progress.done, total: progress.total })}`}
+          {' — '}{t('result.stale')}
+        </div>
+      )}
+
+      {purchases.length > 0 && (
         <div className="card">
-          <h3>Einkaufsliste</h3>
+          <h3>{t('result.purchases')}</h3>
           <table>
             <thead>
               <tr>
-                <th>Material</th>
-                <th>Zuschnitte</th>
-                <th>Anzahl</th>
+                <th>{t('common.material')}</th>
+                <th>{t('common.stockLength')}</th>
+                <th>{t('common.count')}</th>
+                <th>{t('common.price')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {purchases.map(p => (
+                <tr key={p.stockId}>
+                  <td>{p.material}</td>
+                  <td>{formatMm(p.lengthMm)}</td>
+                  <td>{p.count}&times;</td>
+                  <td>{p.price !== undefined ? formatPrice(p.count * p.price) : '–'}</td>
+                </tr>
+              ))}
+              {totalPrice !== null && (
+                <tr className="total-row">
+                  <td colSpan={3}>{t('result.total')}</td>
+                  <td>{formatPrice(totalPrice)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {weights.length > 0 && (
+            <>
+              <h3 className="table-gap">{t('result.weights')}</h3>
+              <table>
+                <thead>
+                  <tr>
+                    <th>{t('common.material')}</th>
+                    <th>{t('result.weightOrder')}</th>
+                    <th>{t('result.weightScrap')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {weights.map(w => (
+                    <tr key={w.materialId}>
+                      <td>{w.material}</td>
+                      <td>{formatNumber(w.orderKg, 1)} kg</td>
+                      <td>{formatNumber(w.scrapKg, 1)} kg</td>
+                    </tr>
+                  ))}
+                  {weights.length > 1 && (
+                    <tr className="total-row">
+                      <td>{t('result.total')}</td>
+                      <td>{formatNumber(weights.reduce((sum, w) => sum + w.orderKg, 0), 1)} kg</td>
+                      <td>{formatNumber(weights.reduce((sum, w) => sum + w.scrapKg, 0), 1)} kg</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          <h3 className="table-gap">{t('result.patterns')}</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>{t('common.material')}</th>
+                <th>{t('common.stockLength')}</th>
+                <th>{t('result.cuts')}</th>
+                <th>{t('common.count')}</th>
               </tr>
             </thead>
             <tbody>
               {summary.map((s, i) => (
                 <tr key={i}>
                   <td>{s.material}</td>
+                  <td>{formatMm(s.lengthMm)}</td>
                   <td>{s.pattern}</td>
                   <td>{s.count}&times;</td>
                 </tr>
@@ -484,20 +1152,117 @@ function ResultSection({
         </div>
       )}
 
+      {hasCosts && (
+        <div className="card">
+          <h3>{t('result.costs')}</h3>
+          <div className="stats-bar">
+            <div className="stat">
+              <span className="stat-value">{formatPrice(costs.materialCost)}</span>
+              <span className="stat-label">{t('common.material')}</span>
+            </div>
+            {costs.labourCost > 0 && (
+              <div className="stat">
+                <span className="stat-value">{formatPrice(costs.labourCost)}</span>
+                <span className="stat-label">{t('result.costCuts')}</span>
+              </div>
+            )}
+            <div className="stat">
+              <span className="stat-value">{formatPrice(costs.total)}</span>
+              <span className="stat-label">{t('result.costTotal')}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-value">{formatPrice(costs.wasteCost)}</span>
+              <span className="stat-label">{t('result.costWaste')}</span>
+            </div>
+          </div>
+          {!costs.complete && (
+            <p className="calc-status error">{t('result.costsIncomplete')}</p>
+          )}
+          <table>
+            <thead>
+              <tr>
+                <th>{t('common.project')}</th>
+                <th>{t('result.costs')}</th>
+                <th>{t('result.share')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(costs.perProject).map(([project, amount]) => (
+                <tr key={project}>
+                  <td>{project}</td>
+                  <td>{formatPrice(amount)}</td>
+                  <td>{costs.total > 0 ? formatPercent((amount / costs.total) * 100) : '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <StrategyComparison
+        comparison={comparison}
+        materials={materials}
+        minRemnantMm={minRemnantMm}
+        settings={settings}
+        onAdopt={onSettingsChange}
+      />
+
+      {(projectColors.size > 1 || (settings.projectMixing ?? 'free') !== 'free') && (
+        <ProjectSeparation
+          projects={[...projectColors.keys()]}
+          plan={results}
+          unconstrained={result.unconstrained}
+          materials={materials}
+          minRemnantMm={minRemnantMm}
+          settings={settings}
+          onSettingsChange={onSettingsChange}
+        />
+      )}
+
+      {stockLimited && projectColors.size > 1 && (
+        <ProjectPriorities
+          projects={[...projectColors.keys()]}
+          settings={settings}
+          onSettingsChange={onSettingsChange}
+        />
+      )}
+
       <div className="card">
         <div className="stats-bar">
           <div className="stat">
             <span className="stat-value">{totalPipes}</span>
-            <span className="stat-label">Rohre</span>
+            <span className="stat-label">{t('result.pipes')}</span>
+          </div>
+          {remnantPipes > 0 && (
+            <div className="stat">
+              <span className="stat-value">{remnantPipes}</span>
+              <span className="stat-label">{t('result.remnantsUsed')}</span>
+            </div>
+          )}
+          <div className="stat">
+            <span className="stat-value">{formatPercent(efficiency)}</span>
+            <span className="stat-label">{t('result.efficiency')}</span>
           </div>
           <div className="stat">
-            <span className="stat-value">{efficiency.toFixed(1)}%</span>
-            <span className="stat-label">Nutzungsgrad</span>
+            <span className="stat-value">{formatTotalLength(reusableMm)}</span>
+            <span className="stat-label">{t('result.reusable', { count: reusableCount })}</span>
           </div>
           <div className="stat">
-            <span className="stat-value">{(totalWasteMm / 1000).toFixed(2)} m</span>
-            <span className="stat-label">Restverschnitt</span>
+            <span className="stat-value">{formatTotalLength(scrapMm)}</span>
+            <span className="stat-label">{t('result.scrap')}</span>
           </div>
+          {bounded && (
+            <>
+              <div className="stat">
+                <span className="stat-value">{lowerBound}</span>
+                <span className="stat-label">{t('result.lowerBound')}</span>
+              </div>
+              <div className="stat">
+                <span className="stat-value">{gap === 0 ? t('result.optimal') : `+${gap} (${formatPercent(gapPct)})`}</span>
+                <span className="stat-label">{t('result.gap')}</span>
+              </div>
+            </>
+          )}
         </div>
 
         <div className="legend">
@@ -509,99 +1274,213 @@ function ResultSection({
           ))}
           <div className="legend-item">
             <div className="legend-swatch hatched" />
-            <span>Fixabfall ({FIXED_WASTE} mm)</span>
+            <span>{t('result.legendFixedWaste')}</span>
           </div>
           <div className="legend-item">
             <div className="legend-swatch" style={{ background: 'var(--kerf-color)' }} />
-            <span>S&auml;geschnitt ({KERF} mm)</span>
+            <span>{t('result.legendKerf')}</span>
           </div>
           <div className="legend-item">
             <div className="legend-swatch" style={{ background: 'var(--waste-color)' }} />
-            <span>Verschnitt</span>
+            <span>{t('result.legendWaste')}</span>
+          </div>
+          <div className="legend-item">
+            <div className="legend-swatch" style={{ background: 'var(--offcut-color)' }} />
+            <span>{t('result.legendOffcut', { length: formatMm(minRemnantMm) })}</span>
           </div>
+          {jointLabels.size > 0 && (
+            <div className="legend-item">
+              <div className="legend-swatch split" />
+              <span>{t('result.legendSplit')}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="action-row accept-row">
+          <div className="form-group small-input">
+            <label>{t('result.minRemnant')}</label>
+            <DecimalInput value={minRemnantMm} onChange={onMinRemnantChange} />
+          </div>
+          {hasLocked && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={settings.fillLocked ?? false}
+                onChange={e => onSettingsChange({ ...settings, fillLocked: e.target.checked })}
+              />
+              {t('result.fillLocked')}
+            </label>
+          )}
+          <button className="primary" onClick={onAccept} disabled={running}>
+            {t('result.accept')}
+          </button>
         </div>
       </div>
 
-      {tooLongAgg.length > 0 && (
+      {unassignedAgg.length > 0 && (
         <div className="card">
-          <h3 className="too-long">Zu lange St&uuml;cke (nicht zugewiesen)</h3>
+          <h3 className="too-long">{t('result.unassigned')}</h3>
           <table>
             <thead>
               <tr>
-                <th>Projekt</th>
-                <th>Material</th>
-                <th>L&auml;nge</th>
-                <th>Anzahl</th>
+                <th>{t('common.project')}</th>
+                <th>{t('common.material')}</th>
+                <th>{t('common.length')}</th>
+                <th>{t('common.count')}</th>
+                <th>{t('result.reason')}</th>
               </tr>
             </thead>
             <tbody>
-              {tooLongAgg.map(agg => {
+              {unassignedAgg.map(agg => {
                 const mat = materialMap.get(agg.materialId)
                 return (
-                  <tr key={agg.key}>
+                  <tr key={`${agg.reason}|${agg.key}`}>
                     <td>{agg.project}</td>
                     <td>{mat?.name}</td>
                     <td>{formatMm(agg.lengthMm)}</td>
                     <td>{agg.count}&times;</td>
+                    <td>{t(agg.reason === 'too-long' ? 'result.reasonTooLong' : 'result.reasonNoStock')}</td>
                   </tr>
                 )
               })}
             </tbody>
           </table>
+
+          {shortfall.length > 0 && (
+            <>
+              <h3 className="table-gap">{t('result.shortfall')}</h3>
+              <p className="group-meta">{t('result.shortfallHint')}</p>
+              <table>
+                <thead>
+                  <tr>
+                    <th>{t('common.material')}</th>
+                    <th>{t('common.stockLength')}</th>
+                    <th>{t('common.count')}</th>
+                    <th>{t('common.price')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shortfall.map(p => (
+                    <tr key={p.stockId}>
+                      <td>{p.material}</td>
+                      <td>{formatMm(p.lengthMm)}</td>
+                      <td>{p.count}&times;</td>
+                      <td>{p.price !== undefined ? formatPrice(p.count * p.price) : '–'}</td>
+                    </tr>
+                  ))}
+                  {shortfallPrice !== null && (
+                    <tr className="total-row">
+                      <td colSpan={3}>{t('result.total')}</td>
+                      <td>{formatPrice(shortfallPrice)}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </>
+          )}
         </div>
       )}
 
       {Object.entries(results).map(([materialId, pipes]) => {
         const mat = materialMap.get(materialId)
         if (!mat || pipes.length === 0) return null
+        const longest = Math.max(...pipes.map(p => p.stockLengthMm))
 
         return (
           <div key={materialId} className="pipe-group">
-            <h3>{mat.name} — {formatMm(mat.stockLengthMm)}</h3>
+            <h3>
+              {mat.name} — {materialSummary(mat)}
+            </h3>
             {pipes.map((pipe, pipeIdx) => {
               const stockLen = pipe.stockLengthMm
-              const segments: { type: string; mm: number; label: string; color?: string; project?: string }[] = []
+              const segments: {
+                type: string
+                mm: number
+                label: string
+                color?: string
+                project?: string
+                title?: string
+                cutIdx?: number
+              }[] = []
 
               // Fixed waste first
-              segments.push({ type: 'fixed-waste', mm: FIXED_WASTE, label: `${FIXED_WASTE}` })
+              if (mat.startWasteMm > 0) {
+                segments.push({ type: 'fixed-waste', mm: mat.startWasteMm, label: formatNumber(mat.startWasteMm, 1) })
+              }
 
               // Cuts with kerf between them
               pipe.cuts.forEach((cut, cutIdx) => {
                 const color = projectColors.get(cut.project) ?? '#666'
+                const tag = segmentTag(cut, jointLabels)
                 segments.push({
-                  type: 'cut',
+                  type: cut.segment ? 'cut split' : 'cut',
                   mm: cut.lengthMm,
-                  label: formatMm(cut.lengthMm),
+                  label: tag ? `${formatCutLength(cut)} · ${tag}` : formatCutLength(cut),
                   color,
                   project: cut.project,
+                  title: cut.segment
+                    ? t('pipe.segment', {
+                      index: cut.segment.index,
+                      count: cut.segment.count,
+                      length: formatMm(cut.segment.parentLengthMm),
+                    })
+                    : cut.requestedLengthMm !== undefined ? formatCutLength(cut) : undefined,
+                  cutIdx,
                 })
-                if (cutIdx < pipe.cuts.length - 1) {
-                  segments.push({ type: 'kerf', mm: KERF, label: `${KERF}` })
+                if (cutIdx < pipe.cuts.length - 1 && mat.kerfMm > 0) {
+                  segments.push({ type: 'kerf', mm: mat.kerfMm, label: formatNumber(mat.kerfMm, 1) })
                 }
               })
 
-              // Remaining waste
+              // Remaining waste, highlighted if it goes back on the rack
               if (pipe.remainingMm > 0) {
-                segments.push({ type: 'waste', mm: pipe.remainingMm, label: formatMm(pipe.remainingMm) })
+                const type = offcutLength(pipe, mat) >= minRemnantMm ? 'offcut' : 'waste'
+                segments.push({ type, mm: pipe.remainingMm, label: formatMm(pipe.remainingMm) })
+              }
+
+              // Clamping allowance at the far end
+              if (mat.endWasteMm > 0) {
+                segments.push({ type: 'fixed-waste', mm: mat.endWasteMm, label: formatNumber(mat.endWasteMm, 1) })
               }
 
               return (
-                <div key={pipeIdx} className="pipe-row">
-                  <div className="pipe-label">Rohr {pipeIdx + 1}</div>
-                  <div className="pipe-bar">
+                <div
+                  key={pipeIdx}
+                  className={`pipe-row ${dropClass(materialId, pipeIdx)}`}
+                  {...dropProps(materialId, pipeIdx)}
+                >
+                  <div className="pipe-label">
+                    {t('pipe.label', { number: pipeIdx + 1 })} · {formatMm(stockLen)}
+                    {pipe.remnantId && <span className="remnant-badge">{t('pipe.remnant')}</span>}
+                    {pipe.edited && <span className="edited-badge">{t('pipe.edited')}</span>}
+                    {changed.has(`${materialId}:${pipeIdx}`) && <span className="changed-badge">{t('pipe.changed')}</span>}
+                    <button
+                      className={`lock-btn ${pipe.locked ? 'active' : ''}`}
+                      onClick={() => onToggleLock(materialId, pipe)}
+                      title={t(pipe.locked ? 'pipe.unlockHint' : 'pipe.lockHint')}
+                    >
+                      {t(pipe.locked ? 'pipe.locked' : 'pipe.lock')}
+                    </button>
+                    {dropClass(materialId, pipeIdx) && dropTarget?.note && (
+                      <span className={dropTarget.ok ? 'drop-note' : 'too-long'}> — {dropTarget.note}</span>
+                    )}
+                  </div>
+                  <div className="pipe-bar" style={{ width: `${(stockLen / longest) * 100}%` }}>
                     {segments.map((seg, segIdx) => {
                       const pct = (seg.mm / stockLen) * 100
                       const style: Record<string, string> = { width: `${pct}%` }
-                      if (seg.type === 'cut' && seg.color) {
+                      if (seg.type.startsWith('cut') && seg.color) {
                         style.background = seg.color
                       }
                       const className = `segment ${seg.type === 'cut' ? '' : seg.type}`
+                      const title = seg.project ? `${seg.project}: ${seg.label}` : seg.label
                       return (
                         <div
                           key={segIdx}
                           className={className}
                           style={style}
-                          title={seg.project ? `${seg.project}: ${seg.label}` : seg.label}
+                          title={seg.title ? `${title} — ${seg.title}` : title}
+                          {...(seg.cutIdx !== undefined ? dragProps(materialId, pipeIdx, seg.cutIdx) : {})}
                         >
                           {pct > 5 ? seg.label : ''}
                         </div>
@@ -612,8 +1491,14 @@ function ResultSection({
                     {pipe.cuts.map((cut, cutIdx) => {
                       const color = projectColors.get(cut.project) ?? '#666'
                       return (
-                        <span key={cutIdx} className="pipe-tag" style={{ background: color }}>
-                          {cut.project}: {formatMm(cut.lengthMm)}
+                        <span
+                          key={cutIdx}
+                          className="pipe-tag"
+                          style={{ background: color }}
+                          {...dragProps(materialId, pipeIdx, cutIdx)}
+                        >
+                          {cut.project}: {formatCutLength(cut)}
+                          {cut.segment && ` · ${t('pipe.joint', { tag: segmentTag(cut, jointLabels) })}`}
                         </span>
                       )
                     })}
@@ -621,6 +1506,14 @@ function ResultSection({
                 </div>
               )
             })}
+            {drag?.materialId === materialId && (
+              <div className={`pipe-row new-pipe-drop ${dropClass(materialId, 'new')}`} {...dropProps(materialId, 'new')}>
+                {t('pipe.new')}
+                {dropTarget?.materialId === materialId && dropTarget.to === 'new' && dropTarget.note && (
+                  <span className="too-long"> — {dropTarget.note}</span>
+                )}
+              </div>
+            )}
           </div>
         )
       })}
@@ -630,40 +1523,292 @@ function ResultSection({
 
 // ── App ────────────────────────────────────────────────────────────
 
-const STEP_LABELS = ['Material', 'Bedarf & Ergebnis']
+const STEP_LABELS: MessageKey[] = ['app.stepMaterial', 'app.stepDemand']
 
 function App() {
   const [step, setStep] = useState<1 | 2>(1)
   const [materials, setMaterials] = useState<Material[]>([])
   const [demands, setDemands] = useState<Demand[]>([])
+  const [settings, setSettings] = useState<SolverSettings>({ mode: 'fast', objective: 'waste' })
+  const [minRemnantMm, setMinRemnantMm] = useState(DEFAULT_MIN_REMNANT_MM)
+  const [locked, setLocked] = useState<CutPlan>({})
+  const [showLabels, setShowLabels] = useState(false)
+  const [showCutList, setShowCutList] = useState(false)
+  const [locale, setLocaleState] = useState(() => {
+    const stored = loadLocale()
+    setLocale(stored)
+    document.documentElement.lang = stored
+    return stored
+  })
+  const [units, setUnits] = useState(() => {
+    const stored = loadDisplayUnits()
+    setDisplayUnits(stored)
+    return stored
+  })
+
+  const optimizer = useOptimizer(materials, demands, settings, locked)
+  const comparison = useComparison(materials, demands, settings, locked)
+
+  const jobData = useMemo<JobData>(
+    () => ({ materials, demands, settings, minRemnantMm, locked }),
+    [materials, demands, settings, minRemnantMm, locked],
+  )
+  // Shown instead of the optimizer result until materials, demands, settings or locks change
+  const [planOverride, setPlanOverride] = useState<{
+    plan: CutPlan
+    key: string
+    source: 'import' | 'edit'
+  } | null>(null)
+  const planKey = useMemo(
+    () => JSON.stringify([materials, demands, settings, locked]),
+    [materials, demands, settings, locked],
+  )
+  const override = planOverride?.key === planKey ? planOverride : null
+  const result = override
+    ? fixedResult(override.plan, materials, demands, optimizer.result?.lowerBounds ?? {})
+    : optimizer.result
+
+  // The plan shown before the current one, to mark what a new run changed
+  const [plans, setPlans] = useState<{ shown: CutPlan | null; previous: CutPlan | null }>({ shown: null, previous: null })
+  const currentPlan = result?.plan ?? null
+  if (currentPlan !== plans.shown) setPlans({ shown: currentPlan, previous: plans.shown })
+
+  function restore(data: JobData) {
+    setMaterials(data.materials)
+    setDemands(data.demands)
+    setSettings(data.settings)
+    setMinRemnantMm(data.minRemnantMm)
+    setLocked(data.locked ?? {})
+    if (data.materials.length === 0) setStep(1)
+  }
+
+  const history = useHistory(jobData, restore)
+  const jobs = useJobs(jobData, data => {
+    restore(data)
+    history.clear()
+  })
 
-  const results = useMemo(() => {
-    if (demands.length === 0) return null
-    return optimize(materials, demands)
-  }, [materials, demands])
+  const materialName = (id: string) => t('common.quoted', { text: materials.find(m => m.id === id)?.name ?? '' })
+  const pieces = (n: number) => t('common.pieces', { count: n })
 
   function addMaterial(m: Material) {
+    history.record(t('history.addMaterial', { name: t('common.quoted', { text: m.name }) }))
     setMaterials(prev => [...prev, m])
   }
 
   function deleteMaterial(id: string) {
+    const count = demands.filter(d => d.materialId === id).length
+    history.record(count > 0
+      ? t('history.deleteMaterialWithDemand', { name: materialName(id), pieces: pieces(count) })
+      : t('history.deleteMaterial', { name: materialName(id) }))
     setMaterials(prev => prev.filter(m => m.id !== id))
     setDemands(prev => prev.filter(d => d.materialId !== id))
+    setLocked(prev => {
+      const { [id]: _removed, ...rest } = prev
+      return rest
+    })
+  }
+
+  function renameMaterial(id: string, name: string) {
+    history.record(t('history.renameMaterial', { name: materialName(id), newName: t('common.quoted', { text: name }) }))
+    setMaterials(prev => prev.map(m => (m.id === id ? { ...m, name } : m)))
+  }
+
+  function addStock(materialId: string, stock: StockVariant) {
+    history.record(t('history.addStock', { length: formatMm(stock.lengthMm), material: materialName(materialId) }))
+    setMaterials(prev => prev.map(m => (m.id === materialId ? { ...m, stocks: [...m.stocks, stock] } : m)))
+  }
+
+  function setStockLength(materialId: string, stockId: string, lengthMm: number) {
+    history.record(t('history.setStockLength', { material: materialName(materialId), length: formatMm(lengthMm) }))
+    setMaterials(prev => prev.map(m => (
+      m.id === materialId ? { ...m, stocks: m.stocks.map(s => (s.id === stockId ? { ...s, lengthMm } : s)) } : m
+    )))
+  }
+
+  function deleteStock(materialId: string, stockId: string) {
+    const stock = materials.find(m => m.id === materialId)?.stocks.find(s => s.id === stockId)
+    history.record(t('history.deleteStock', { length: stock ? formatMm(stock.lengthMm) : '', material: materialName(materialId) }))
+    setMaterials(prev => prev.map(m => (
+      m.id === materialId ? { ...m, stocks: m.stocks.filter(s => s.id !== stockId) } : m
+    )))
   }
 
-  function addDemand(d: Demand) {
-    setDemands(prev => [...prev, d])
+  function addRemnants(materialId: string, remnants: Remnant[]) {
+    history.record(t('history.addRemnants', { count: remnants.length, material: materialName(materialId) }))
+    setMaterials(prev => prev.map(m => (m.id === materialId ? { ...m, remnants: [...m.remnants, ...remnants] } : m)))
+  }
+
+  function deleteRemnant(materialId: string, remnantId: string) {
+    const remnant = materials.find(m => m.id === materialId)?.remnants.find(r => r.id === remnantId)
+    history.record(t('history.deleteRemnant', { length: remnant ? formatMm(remnant.lengthMm) : '', material: materialName(materialId) }))
+    setMaterials(prev => prev.map(m => (
+      m.id === materialId ? { ...m, remnants: m.remnants.filter(r => r.id !== remnantId) } : m
+    )))
+  }
+
+  function setSplitting(materialId: string, splitting: SplitSettings | undefined) {
+    history.record(t(splitting ? 'history.splitOn' : 'history.splitOff', { material: materialName(materialId) }))
+    setMaterials(prev => prev.map(m => (m.id === materialId ? { ...m, splitting } : m)))
+  }
+
+  // Books the plan as cut: used remnants leave the rack, long enough offcuts
+  // go onto it, and the cut demands are done.
+  function acceptPlan() {
+    if (!result) return
+    if (!confirm(t('app.confirmAccept'))) return
+
+    const cutIds = new Set<string>()
+    const usedRemnants = new Set<string>()
+    // A split piece is only done once all of its segments are cut
+    const segmentsCut = new Map<string, Demand[]>()
+    const offcuts = new Map<string, Remnant[]>()
+    for (const mat of materials) {
+      const list: Remnant[] = []
+      for (const pipe of result.plan[mat.id] ?? []) {
+        if (pipe.remnantId) usedRemnants.add(pipe.remnantId)
+        for (const c of pipe.cuts) {
+          if (!c.segment) cutIds.add(c.id)
+          else segmentsCut.set(c.segment.parentId, [...(segmentsCut.get(c.segment.parentId) ?? []), c])
+        }
+        const lengthMm = offcutLength(pipe, mat)
+        if (lengthMm >= minRemnantMm) list.push({ id: nextId(), lengthMm })
+      }
+      offcuts.set(mat.id, list)
+    }
+
+    for (const [parentId, cuts] of segmentsCut) {
+      if (cuts.length === cuts[0].segment!.count) cutIds.add(parentId)
+    }
+
+    history.record(t('history.acceptPlan', { pieces: pieces(cutIds.size) }))
+    setMaterials(prev => prev.map(m => ({
+      ...m,
+      remnants: [...m.remnants.filter(r => !usedRemnants.has(r.id)), ...(offcuts.get(m.id) ?? [])],
+    })))
+    setDemands(prev => prev.filter(d => !cutIds.has(d.id)))
+    setLocked({})
+  }
+
+  function toggleLock(materialId: string, pipe: Pipe) {
+    history.record(t(pipe.locked ? 'history.unlock' : 'history.lock', { material: materialName(materialId) }))
+    setLocked(prev => {
+      const list = prev[materialId] ?? []
+      const index = pipe.locked ? list.findIndex(entry => isLockedPipe(entry, pipe)) : -1
+      const next = pipe.locked
+        ? list.filter((_, i) => i !== index)
+        : [...list, { ...pipe, locked: true, edited: undefined }]
+      return { ...prev, [materialId]: next }
+    })
+  }
+
+  function exportJob(withPlan: boolean): JobFile {
+    return createJobFile(jobs.current?.name ?? '', jobData, withPlan ? result?.plan : undefined)
+  }
+
+  async function importJob(file: JobFile) {
+    await jobs.importJob(file.name, file.job)
+    if (file.plan) {
+      const { materials, demands, settings, locked = {} } = file.job
+      setPlanOverride({ plan: file.plan, key: JSON.stringify([materials, demands, settings, locked]), source: 'import' })
+    } else {
+      setPlanOverride(null)
+    }
+    setStep(file.job.materials.length > 0 && file.job.demands.length > 0 ? 2 : 1)
+  }
+
+  function addDemands(list: Demand[]) {
+    const d = list[0]
+    history.record(t('history.addDemands', {
+      pieces: pieces(list.length),
+      length: formatMm(d.lengthMm),
+      material: materialName(d.materialId),
+      project: d.project,
+    }))
+    setDemands(prev => [...prev, ...list])
+  }
+
+  function importDemands(list: Demand[]) {
+    history.record(t('history.importDemands', { pieces: pieces(list.length) }))
+    setDemands(prev => [...prev, ...list])
+  }
+
+  function updateGroup(ids: string[], changes: Partial<Pick<Demand, 'project' | 'lengthMm' | 'minLengthMm'>>) {
+    const idSet = new Set(ids)
+    const first = demands.find(d => idSet.has(d.id))
+    if (!first) return
+    const change = changes.project !== undefined
+      ? t('history.renameProject', { project: first.project, newName: changes.project })
+      : changes.lengthMm !== undefined
+        ? t('history.changeLength', { length: formatMm(first.lengthMm), newLength: formatMm(changes.lengthMm) })
+        : changes.minLengthMm !== undefined
+          ? t('history.setMinLength', { length: formatMm(first.lengthMm), minLength: formatMm(changes.minLengthMm) })
+          : t('history.clearMinLength', { length: formatMm(first.lengthMm) })
+    history.record(t('history.groupChange', { change, pieces: pieces(ids.length), material: materialName(first.materialId) }))
+    setDemands(prev => prev.map(d => (idSet.has(d.id) ? { ...d, ...changes } : d)))
+  }
+
+  // More pieces are copies of the group's first one; fewer drop the last ones
+  function setGroupCount(ids: string[], count: number) {
+    const first = demands.find(d => d.id === ids[0])
+    if (!first || count === ids.length) return
+    history.record(t('history.setCount', {
+      length: formatMm(first.lengthMm),
+      material: materialName(first.materialId),
+      project: first.project,
+      count,
+    }))
+    if (count > ids.length) {
+      const added = Array.from({ length: count - ids.length }, () => ({ ...first, id: nextId() }))
+      setDemands(prev => [...prev, ...added])
+    } else {
+      const removed = new Set(ids.slice(count))
+      setDemands(prev => prev.filter(d => !removed.has(d.id)))
+    }
   }
 
   function deleteGroup(ids: string[]) {
     const idSet = new Set(ids)
+    const first = demands.find(d => idSet.has(d.id))
+    history.record(first
+      ? t('history.deleteGroup', {
+        pieces: pieces(ids.length),
+        length: formatMm(first.lengthMm),
+        material: materialName(first.materialId),
+        project: first.project,
+      })
+      : t('history.deleteDemand'))
     setDemands(prev => prev.filter(d => !idSet.has(d.id)))
   }
 
   function clearDemands() {
+    history.record(t('history.clearDemands', { pieces: pieces(demands.length) }))
     setDemands([])
   }
 
+  function changeSettings(next: SolverSettings) {
+    history.record(t('history.settings'))
+    setSettings(next)
+  }
+
+  function changeMinRemnant(mm: number) {
+    history.record(t('history.minRemnant'))
+    setMinRemnantMm(mm)
+  }
+
+  function changeLocale(next: Locale) {
+    setLocale(next)
+    saveLocale(next)
+    document.documentElement.lang = next
+    setLocaleState(next)
+  }
+
+  function changeUnits(next: DisplayUnits) {
+    setDisplayUnits(next)
+    saveDisplayUnits(next)
+    setUnits(next)
+  }
+
   function goToStep(s: 1 | 2) {
     if (s === 2 && materials.length === 0) return
     setStep(s)
@@ -671,8 +1816,28 @@ function App() {
 
   return (
     <>
-      <h1>Rohr-Zuschnittoptimierung</h1>
-      <p className="subtitle">1D Cutting Stock — Verschnittminimierung</p>
+      <h1>{t('app.title')}</h1>
+      <p className="subtitle">{t('app.subtitle')}</p>
+      <DisplaySettings locale={locale} units={units} onLocaleChange={changeLocale} onUnitsChange={changeUnits} />
+
+      {jobs.error && (
+        <p className="calc-status error">{t('app.jobsError', { error: jobs.error })}</p>
+      )}
+      {jobs.current && (
+        <JobBar
+          jobs={jobs.jobs}
+          current={jobs.current}
+          hasPlan={result !== null}
+          onOpen={jobs.open}
+          onCreate={jobs.create}
+          onRename={jobs.rename}
+          onDuplicate={jobs.duplicate}
+          onDelete={jobs.remove}
+          onExport={exportJob}
+          onImport={importJob}
+        />
+      )}
+      <HistoryBar history={history} />
 
       <div className="steps">
         {STEP_LABELS.map((label, i) => {
@@ -688,7 +1853,7 @@ function App() {
               disabled={!canGo}
             >
               <span className="step-number">{s}</span>
-              {label}
+              {t(label)}
             </button>
           )
         })}
@@ -696,11 +1861,23 @@ function App() {
 
       {step === 1 && (
         <>
-          <MaterialStep materials={materials} onAdd={addMaterial} onDelete={deleteMaterial} />
+          <MaterialStep
+            materials={materials}
+            demands={demands}
+            onAdd={addMaterial}
+            onDelete={deleteMaterial}
+            onRename={renameMaterial}
+            onAddStock={addStock}
+            onSetStockLength={setStockLength}
+            onDeleteStock={deleteStock}
+            onAddRemnants={addRemnants}
+            onDeleteRemnant={deleteRemnant}
+            onSetSplitting={setSplitting}
+          />
           {materials.length > 0 && (
             <div className="nav-buttons">
               <button className="primary" onClick={() => setStep(2)}>
-                Weiter zu Bedarf →
+                {t('app.next')}
               </button>
             </div>
           )}
@@ -712,15 +1889,55 @@ function App() {
           <DemandStep
             materials={materials}
             demands={demands}
-            onAdd={addDemand}
+            onAdd={addDemands}
+            onImport={importDemands}
+            onAddMaterial={addMaterial}
+            onUpdateGroup={updateGroup}
+            onSetGroupCount={setGroupCount}
             onDeleteGroup={deleteGroup}
             onClearAll={clearDemands}
           />
-          {results && (
-            <ResultSection materials={materials} demands={demands} results={results} />
+          {optimizer.error && (
+            <p className="calc-status error">{t('app.calcFailed', { error: optimizer.error })}</p>
+          )}
+          {!result && optimizer.running && (
+            <p className="calc-status">{t('common.calculating')}</p>
+          )}
+          {override && (
+            <p className={`calc-status ${override.source === 'edit' ? 'edited' : ''}`}>
+              {t(override.source === 'edit' ? 'app.editedPlan' : 'app.importedPlan')}
+              {' '}
+              <button className="link-btn" onClick={() => setPlanOverride(null)}>{t('app.recalculate')}</button>
+            </p>
+          )}
+          {result && (
+            <ResultSection
+              materials={materials}
+              demands={demands}
+              result={result}
+              running={!override && optimizer.running}
+              progress={optimizer.progress}
+              settings={settings}
+              onSettingsChange={changeSettings}
+              minRemnantMm={minRemnantMm}
+              onMinRemnantChange={changeMinRemnant}
+              onAccept={acceptPlan}
+              onShowLabels={() => setShowLabels(true)}
+              onShowCutList={() => setShowCutList(true)}
+              onEditPlan={plan => setPlanOverride({ plan, key: planKey, source: 'edit' })}
+              onToggleLock={toggleLock}
+              previousPlan={plans.previous}
+              comparison={comparison}
+            />
+          )}
+          {result && showCutList && (
+            <CutList plan={result.plan} materials={materials} onClose={() => setShowCutList(false)} />
+          )}
+          {result && showLabels && (
+            <LabelSheets plan={result.plan} materials={materials} onClose={() => setShowLabels(false)} />
           )}
           <div className="nav-buttons">
-            <button onClick={() => setStep(1)}>← Material</button>
+            <button onClick={() => setStep(1)}>{t('app.back')}</button>
           </div>
         </>
       )}
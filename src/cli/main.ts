@@ -0,0 +1,121 @@
+import { readFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import type { JobData, Objective, SolverMode } from '../core'
+import {
+  DEFAULT_DISPLAY_UNITS,
+  DEFAULT_MIN_REMNANT_MM,
+  JOB_FILE_FORMAT,
+  JOB_FILE_VERSION,
+  isLocale,
+  optimize,
+  parseJobFile,
+  setDisplayUnits,
+  setLocale,
+  t,
+} from '../core'
+import type { ReportFormat } from './report'
+import { REPORT_FORMATS, countPieces, report } from './report'
+
+// Exit codes: 0 everything planned, 1 pieces left unassigned, 2 bad call or
+// bad input.
+const EXIT_UNASSIGNED = 1
+const EXIT_USAGE = 2
+
+function invalidValue(option: string, value: string): string {
+  return t('cli.invalidValue', { option, value: t('common.quoted', { text: value }) })
+}
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n`)
+  process.exit(EXIT_USAGE)
+}
+
+// Export scripts may write the bare job instead of a full job file; it gets
+// the defaults the UI would use for a new job.
+function readJob(text: string): JobData {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    fail(t('file.invalidJson'))
+  }
+  const bare = typeof raw === 'object' && raw !== null && !('format' in raw) && 'materials' in raw
+  const fileText = bare
+    ? JSON.stringify({
+      format: JOB_FILE_FORMAT,
+      version: JOB_FILE_VERSION,
+      job: { settings: { mode: 'fast', objective: 'waste' }, minRemnantMm: DEFAULT_MIN_REMNANT_MM, ...(raw as object) },
+    })
+    : text
+
+  const parsed = parseJobFile(fileText)
+  if (!parsed.ok) fail(parsed.errors.join('\n'))
+  return parsed.file.job
+}
+
+function main(argv: string[]) {
+  let args
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', default: 'text' },
+        mode: { type: 'string' },
+        objective: { type: 'string' },
+        units: { type: 'string', default: 'metric' },
+        lang: { type: 'string', default: 'de' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+  } catch (e) {
+    fail(`${(e as Error).message}\n\n${t('cli.usage')}`)
+  }
+
+  const { values, positionals } = args
+  // The language comes first so that help and errors already use it
+  if (!isLocale(values.lang)) fail(invalidValue('lang', values.lang))
+  setLocale(values.lang)
+  if (values.help) {
+    process.stdout.write(t('cli.usage'))
+    return
+  }
+  const [command, path] = positionals
+  if (command !== 'plan' || !path || positionals.length > 2) fail(t('cli.usage'))
+
+  const format = values.format as ReportFormat
+  if (!REPORT_FORMATS.includes(format)) fail(invalidValue('format', values.format))
+  if (values.mode !== undefined && values.mode !== 'fast' && values.mode !== 'exact') {
+    fail(invalidValue('mode', values.mode))
+  }
+  if (values.objective !== undefined && values.objective !== 'waste' && values.objective !== 'cost') {
+    fail(invalidValue('objective', values.objective))
+  }
+  if (values.units !== 'metric' && values.units !== 'imperial') fail(invalidValue('units', values.units))
+  setDisplayUnits({ ...DEFAULT_DISPLAY_UNITS, system: values.units })
+
+  let text: string
+  try {
+    text = readFileSync(path === '-' ? 0 : path, 'utf8')
+  } catch (e) {
+    fail(t('cli.unreadable', { error: (e as Error).message }))
+  }
+
+  const job = readJob(text)
+  const result = optimize(job.materials, job.demands, {
+    ...job.settings,
+    mode: (values.mode as SolverMode | undefined) ?? job.settings.mode,
+    objective: (values.objective as Objective | undefined) ?? job.settings.objective,
+    locked: job.locked,
+  })
+
+  process.stdout.write(report(format, result, job.materials))
+
+  const pieces = countPieces(result.plan)
+  if (result.unassigned.length > 0) {
+    process.stderr.write(`${t('cli.summary', { pieces: t('common.pieces', { count: pieces }), count: result.unassigned.length })}\n`)
+    process.exitCode = EXIT_UNASSIGNED
+  }
+}
+
+main(process.argv.slice(2))
@@ -0,0 +1,153 @@
+import type { CutPlan, Material, MessageKey, OptimizeResult, UnassignedReason } from '../core'
+import { aggregateDemands, formatCutLength, formatMm, formatPrice, offcutLength, orderShortfall, purchaseList, purchaseTotal, t } from '../core'
+
+export type ReportFormat = 'text' | 'json' | 'csv'
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'csv']
+
+const REASONS: Record<UnassignedReason, MessageKey> = {
+  'too-long': 'result.reasonTooLong',
+  'no-stock': 'result.reasonNoStock',
+}
+
+export function report(format: ReportFormat, result: OptimizeResult, materials: Material[]): string {
+  switch (format) {
+    case 'json':
+      return jsonReport(result, materials)
+    case 'csv':
+      return csvReport(result, materials)
+    default:
+      return textReport(result, materials)
+  }
+}
+
+// ── Text ───────────────────────────────────────────────────────────
+
+function textReport(result: OptimizeResult, materials: Material[]): string {
+  const lines: string[] = []
+
+  for (const mat of materials) {
+    const pipes = result.plan[mat.id] ?? []
+    if (pipes.length === 0) continue
+    lines.push(`${mat.name}`)
+    pipes.forEach((pipe, i) => {
+      const source = t(pipe.remnantId ? 'pipe.remnant' : 'cli.bar')
+      const cuts = pipe.cuts.map(c => `${formatCutLength(c)} (${c.project})`).join(', ')
+      const locked = pipe.locked ? ` [${t('pipe.locked')}]` : ''
+      const offcut = `${t('cli.offcut')} ${formatMm(offcutLength(pipe, mat))}`
+      lines.push(`  ${i + 1}. ${source} ${formatMm(pipe.stockLengthMm)}${locked}: ${cuts} – ${offcut}`)
+    })
+    lines.push('')
+  }
+
+  const purchases = purchaseList(result.plan, materials)
+  if (purchases.length > 0) {
+    lines.push(t('result.purchases'))
+    for (const p of purchases) {
+      const price = p.price !== undefined ? `  ${formatPrice(p.count * p.price)}` : ''
+      lines.push(`  ${p.count}× ${p.material} ${formatMm(p.lengthMm)}${price}`)
+    }
+    const total = purchaseTotal(purchases)
+    if (total !== null) lines.push(`  ${t('result.total')} ${formatPrice(total)}`)
+    lines.push('')
+  }
+
+  if (result.unassigned.length > 0) {
+    const names = new Map(materials.map(m => [m.id, m.name]))
+    lines.push(t('result.unassigned'))
+    for (const u of result.unassigned) {
+      const d = u.demand
+      lines.push(`  ${names.get(d.materialId) ?? d.materialId} ${formatMm(d.lengthMm)} (${d.project}) – ${t(REASONS[u.reason])}`)
+    }
+    lines.push('')
+  }
+
+  const shortfall = orderShortfall(result.unassigned, materials)
+  if (shortfall.length > 0) {
+    lines.push(t('result.shortfall'))
+    for (const p of shortfall) {
+      const price = p.price !== undefined ? `  ${formatPrice(p.count * p.price)}` : ''
+      lines.push(`  ${p.count}× ${p.material} ${formatMm(p.lengthMm)}${price}`)
+    }
+    lines.push('')
+  }
+
+  return lines.join('\n')
+}
+
+// ── JSON ───────────────────────────────────────────────────────────
+
+function jsonReport(result: OptimizeResult, materials: Material[]): string {
+  const purchases = purchaseList(result.plan, materials)
+  return JSON.stringify({
+    plan: result.plan,
+    purchases,
+    purchaseTotal: purchaseTotal(purchases),
+    lowerBounds: result.lowerBounds,
+    unassigned: result.unassigned,
+    shortfall: orderShortfall(result.unassigned, materials),
+  }, null, 2) + '\n'
+}
+
+// ── CSV ────────────────────────────────────────────────────────────
+
+// Semicolon-separated like the demand import expects. Three blocks, each with
+// its own header: the cuts, the purchase list and the unassigned pieces.
+function csvReport(result: OptimizeResult, materials: Material[]): string {
+  const rows: (string | number)[][] = [
+    [
+      t('common.material'),
+      t('cli.pipe'),
+      t('cli.source'),
+      t('common.stockLength'),
+      t('common.project'),
+      t('common.length'),
+      t('cli.id'),
+      t('cli.offcut'),
+    ],
+  ]
+  for (const mat of materials) {
+    (result.plan[mat.id] ?? []).forEach((pipe, i) => {
+      for (const cut of pipe.cuts) {
+        rows.push([
+          mat.name,
+          i + 1,
+          t(pipe.remnantId ? 'pipe.remnant' : 'cli.bar'),
+          pipe.stockLengthMm,
+          cut.project,
+          cut.lengthMm,
+          cut.id,
+          offcutLength(pipe, mat),
+        ])
+      }
+    })
+  }
+
+  rows.push([], [t('common.material'), t('cli.barLength'), t('common.count'), t('common.price')])
+  for (const p of purchaseList(result.plan, materials)) {
+    rows.push([p.material, p.lengthMm, p.count, p.price !== undefined ? Math.round(p.count * p.price * 100) / 100 : ''])
+  }
+
+  if (result.unassigned.length > 0) {
+    const names = new Map(materials.map(m => [m.id, m.name]))
+    rows.push([], [t('common.material'), t('common.project'), t('common.length'), t('common.count'), t('result.reason')])
+    for (const reason of Object.keys(REASONS) as UnassignedReason[]) {
+      const demands = result.unassigned.filter(u => u.reason === reason).map(u => u.demand)
+      for (const agg of aggregateDemands(demands)) {
+        rows.push([names.get(agg.materialId) ?? agg.materialId, agg.project, agg.lengthMm, agg.count, t(REASONS[reason])])
+      }
+    }
+  }
+
+  return rows.map(row => row.map(csvCell).join(';')).join('\n') + '\n'
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value)
+  return /[;"\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Number of pieces in the plan */
+export function countPieces(plan: CutPlan): number {
+  return Object.values(plan).reduce((sum, pipes) => sum + pipes.reduce((n, p) => n + p.cuts.length, 0), 0)
+}
@@ -0,0 +1,24 @@
+import { optimize } from './core/optimize'
+import { STRATEGIES, strategySettings } from './core/strategies'
+import type { StrategyId, StrategyResult } from './core/strategies'
+import type { OptimizerRequest } from './optimizer.worker'
+
+export type ComparisonResponse =
+  | { type: 'progress'; done: number; total: number; running: StrategyId }
+  | { type: 'result'; results: StrategyResult[] }
+
+function send(msg: ComparisonResponse) {
+  postMessage(msg)
+}
+
+// Runs every strategy on the same input, one after the other
+addEventListener('message', (e: MessageEvent<OptimizerRequest>) => {
+  const { materials, demands, settings, locked } = e.data
+  const results: StrategyResult[] = []
+  STRATEGIES.forEach((strategy, i) => {
+    send({ type: 'progress', done: i, total: STRATEGIES.length, running: strategy.id })
+    const result = optimize(materials, demands, { ...strategySettings(settings, strategy), locked })
+    results.push({ id: strategy.id, result })
+  })
+  send({ type: 'result', results })
+})
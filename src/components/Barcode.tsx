@@ -0,0 +1,29 @@
+import { code128 } from '../core/code128'
+
+const QUIET_ZONE = 10
+
+export function Barcode({ value, height = 30 }: { value: string; height?: number }) {
+  const widths = code128(value)
+  const bars: { x: number; width: number }[] = []
+  let x = QUIET_ZONE
+  widths.forEach((width, i) => {
+    if (i % 2 === 0) bars.push({ x, width })
+    x += width
+  })
+  const total = x + QUIET_ZONE
+
+  return (
+    <svg
+      className="barcode"
+      viewBox={`0 0 ${total} ${height}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label={value}
+    >
+      <rect width={total} height={height} fill="#fff" />
+      {bars.map(bar => (
+        <rect key={bar.x} x={bar.x} width={bar.width} height={height} fill="#000" />
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,102 @@
+import { Fragment, useEffect } from 'react'
+import type { CutPlan, Material } from '../core/types'
+import { planCutList } from '../core/cutList'
+import { formatCutLength, formatMm } from '../core/format'
+import { t } from '../core/i18n'
+
+export function CutList({
+  plan,
+  materials,
+  onClose,
+}: {
+  plan: CutPlan
+  materials: Material[]
+  onClose: () => void
+}) {
+  const lists = planCutList(plan, materials)
+
+  // Same swap as for the label sheets: only the cut list gets printed
+  useEffect(() => {
+    const reset = () => document.body.classList.remove('print-cut-list')
+    window.addEventListener('afterprint', reset)
+    return () => {
+      window.removeEventListener('afterprint', reset)
+      reset()
+    }
+  }, [])
+
+  function print() {
+    document.body.classList.add('print-cut-list')
+    window.print()
+  }
+
+  return (
+    <div className="cut-list-print">
+      <div className="card">
+        <div className="result-header">
+          <h2>{t('cutList.title')}</h2>
+          <div className="result-actions">
+            <button className="primary" onClick={print} disabled={lists.length === 0}>
+              {t('cutList.print')}
+            </button>
+            <button onClick={onClose}>&times;</button>
+          </div>
+        </div>
+        <p className="group-meta">{lists.length > 0 ? t('cutList.hint') : t('cutList.empty')}</p>
+      </div>
+
+      {lists.map(list => (
+        <div key={list.materialId} className="card cut-list">
+          <h3>{list.material}</h3>
+          <p className="group-meta">
+            {t('cutList.summary', { stops: list.stopChanges, planStops: list.planStopChanges })}
+          </p>
+          <table>
+            <thead>
+              <tr>
+                <th>{t('cutList.pipe')}</th>
+                <th>{t('cutList.bar')}</th>
+                <th>{t('cutList.cut')}</th>
+                <th>{t('common.length')}</th>
+                <th>{t('cutList.stop')}</th>
+                <th>{t('cutList.position')}</th>
+                <th>{t('common.project')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.pipes.map(p => (
+                <Fragment key={p.pipeNumber}>
+                  {p.cuts.map((cut, i) => (
+                    <tr key={cut.demand.id} className={i === 0 ? 'cut-list-pipe' : undefined}>
+                      {i === 0 && (
+                        <>
+                          <td rowSpan={p.cuts.length}>{p.pipeNumber}</td>
+                          <td rowSpan={p.cuts.length}>
+                            {formatMm(p.pipe.stockLengthMm)}
+                            {p.pipe.remnantId && <span className="remnant-badge">{t('pipe.remnant')}</span>}
+                          </td>
+                        </>
+                      )}
+                      <td>{i + 1}/{p.cuts.length}</td>
+                      <td className="cut-list-length">
+                        {formatCutLength(cut.demand)}
+                        {cut.demand.segment && (
+                          <span className="group-meta">
+                            {' '}{t('labels.part', { index: cut.demand.segment.index, count: cut.demand.segment.count })}
+                          </span>
+                        )}
+                      </td>
+                      <td>{cut.newStop && <span className="cut-list-stop">{t('cutList.newStop')}</span>}</td>
+                      <td>{formatMm(cut.positionMm)}</td>
+                      <td>{cut.demand.project}</td>
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { useState } from 'react'
+import { formatNumber } from '../core/format'
+import { parseDecimal } from '../core/units'
+
+// A number field that takes decimal commas. While typing, the text stays as
+// entered ("2," on the way to "2,5"); only valid values reach `onChange`.
+export function DecimalInput({
+  value,
+  onChange,
+  min = 0,
+}: {
+  value: number
+  onChange: (value: number) => void
+  min?: number
+}) {
+  const [draft, setDraft] = useState<{ text: string; value: number } | null>(null)
+  const text = draft && draft.value === value ? draft.text : formatNumber(value, 4)
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      onChange={e => {
+        const parsed = parseDecimal(e.target.value)
+        const valid = parsed >= min
+        setDraft({ text: e.target.value, value: valid ? parsed : value })
+        if (valid && parsed !== value) onChange(parsed)
+      }}
+      onBlur={() => setDraft(null)}
+    />
+  )
+}
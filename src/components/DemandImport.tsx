@@ -0,0 +1,264 @@
+import { useState } from 'react'
+import type { Demand, Material } from '../core/types'
+import type { ColumnMapping, DemandColumn, ImportDefaults } from '../core/demandImport'
+import {
+  buildImportRows,
+  guessMapping,
+  looksLikeHeader,
+  missingMaterials,
+  parseTable,
+} from '../core/demandImport'
+import { parseLength } from '../core/units'
+import type { LengthUnit } from '../core/units'
+import { DEFAULT_END_WASTE_MM, DEFAULT_KERF_MM, DEFAULT_START_WASTE_MM } from '../core/constants'
+import { maxUsableLength } from '../core/materials'
+import { splitDemand } from '../core/splitting'
+import { formatMm } from '../core/format'
+import { t } from '../core/i18n'
+import type { MessageKey } from '../core/i18n'
+import { nextId } from '../ids'
+
+const COLUMN_LABELS: Record<DemandColumn, MessageKey> = {
+  project: 'common.project',
+  material: 'common.material',
+  length: 'common.length',
+  unit: 'common.unit',
+  count: 'common.count',
+}
+
+const EMPTY_MAPPING: ColumnMapping = { project: -1, material: -1, length: -1, unit: -1, count: -1 }
+
+const DEFAULT_NEW_STOCK = '6000'
+
+export function DemandImport({
+  materials,
+  onAddMaterial,
+  onImport,
+  onClose,
+}: {
+  materials: Material[]
+  onAddMaterial: (m: Material) => void
+  onImport: (demands: Demand[]) => void
+  onClose: () => void
+}) {
+  const [text, setText] = useState('')
+  const [hasHeader, setHasHeader] = useState(false)
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING)
+  const [defaults, setDefaults] = useState<ImportDefaults>({
+    project: '',
+    materialId: materials[0]?.id ?? '',
+    unit: 'mm',
+  })
+  const [newStock, setNewStock] = useState<Record<string, string>>({})
+
+  const table = parseTable(text)
+  const columnCount = Math.max(0, ...table.map(r => r.length))
+  const rows = buildImportRows(table, mapping, hasHeader, materials, defaults)
+  const missing = missingMaterials(rows)
+  const valid = rows.filter(r => r.errors.length === 0)
+  const pieceCount = valid.reduce((sum, r) => sum + r.count, 0)
+  const materialMap = new Map(materials.map(m => [m.id, m]))
+
+  function loadText(value: string) {
+    const parsed = parseTable(value)
+    const header = parsed.length > 0 && looksLikeHeader(parsed[0])
+    setText(value)
+    setHasHeader(header)
+    setMapping(parsed.length > 0 ? guessMapping(parsed[0], header) : EMPTY_MAPPING)
+  }
+
+  function toggleHeader(header: boolean) {
+    setHasHeader(header)
+    if (table.length > 0) setMapping(guessMapping(table[0], header))
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (file) loadText(await file.text())
+  }
+
+  function createMaterial(name: string) {
+    const lengthMm = parseLength(newStock[name] ?? DEFAULT_NEW_STOCK, 'mm')
+    if (!(lengthMm > 0)) return
+    onAddMaterial({
+      id: nextId(),
+      name,
+      stocks: [{ id: nextId(), lengthMm }],
+      remnants: [],
+      kerfMm: DEFAULT_KERF_MM,
+      startWasteMm: DEFAULT_START_WASTE_MM,
+      endWasteMm: DEFAULT_END_WASTE_MM,
+    })
+  }
+
+  function handleImport() {
+    const demands = valid.flatMap(r => Array.from({ length: r.count }, (): Demand => ({
+      id: nextId(),
+      project: r.project,
+      materialId: r.materialId!,
+      lengthMm: r.lengthMm,
+    })))
+    onImport(demands)
+    onClose()
+  }
+
+  const columnName = (i: number) => (hasHeader && table[0]?.[i] ? table[0][i] : t('import.column', { number: i + 1 }))
+
+  return (
+    <div className="card demand-import">
+      <div className="result-header">
+        <h3>{t('import.title')}</h3>
+        <button type="button" onClick={onClose}>&times;</button>
+      </div>
+
+      <div className="form-row">
+        <div className="form-group">
+          <label>{t('import.source')}</label>
+          <textarea
+            rows={5}
+            value={text}
+            onChange={e => loadText(e.target.value)}
+            placeholder={t('import.placeholder')}
+          />
+        </div>
+      </div>
+      <div className="form-row">
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/plain"
+          onChange={e => handleFile(e.target.files?.[0])}
+        />
+        <label className="checkbox-label">
+          <input type="checkbox" checked={hasHeader} onChange={e => toggleHeader(e.target.checked)} />
+          {t('import.hasHeader')}
+        </label>
+      </div>
+
+      {table.length > 0 && (
+        <>
+          <div className="form-row">
+            {(Object.keys(COLUMN_LABELS) as DemandColumn[]).map(col => (
+              <div key={col} className="form-group">
+                <label>{t(COLUMN_LABELS[col])}</label>
+                <select
+                  value={mapping[col]}
+                  onChange={e => setMapping({ ...mapping, [col]: Number(e.target.value) })}
+                >
+                  <option value={-1}>&mdash;</option>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <option key={i} value={i}>{columnName(i)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="form-row">
+            {mapping.project < 0 && (
+              <div className="form-group">
+                <label>{t('import.projectForAll')}</label>
+                <input
+                  type="text"
+                  value={defaults.project}
+                  onChange={e => setDefaults({ ...defaults, project: e.target.value })}
+                />
+              </div>
+            )}
+            {mapping.material < 0 && (
+              <div className="form-group">
+                <label>{t('import.materialForAll')}</label>
+                <select
+                  value={defaults.materialId}
+                  onChange={e => setDefaults({ ...defaults, materialId: e.target.value })}
+                >
+                  {materials.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="form-group">
+              <label>{t(mapping.unit >= 0 ? 'import.unitIfEmpty' : 'common.unit')}</label>
+              <div className="toggle-group">
+                {(['mm', 'cm', 'm', 'in', 'ft'] as LengthUnit[]).map(u => (
+                  <button
+                    key={u}
+                    type="button"
+                    className={defaults.unit === u ? 'active' : ''}
+                    onClick={() => setDefaults({ ...defaults, unit: u })}
+                  >
+                    {u}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {missing.length > 0 && (
+            <div className="missing-materials">
+              <h3>{t('import.unknownMaterials')}</h3>
+              {missing.map(name => (
+                <div key={name} className="form-row">
+                  <span className="missing-name">{name}</span>
+                  <div className="form-group small-input">
+                    <label>{t('import.barLength', { unit: 'mm' })}</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={newStock[name] ?? DEFAULT_NEW_STOCK}
+                      onChange={e => setNewStock({ ...newStock, [name]: e.target.value })}
+                    />
+                  </div>
+                  <button type="button" onClick={() => createMaterial(name)}>{t('import.create')}</button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <table className="import-preview">
+            <thead>
+              <tr>
+                <th>{t('import.line')}</th>
+                <th>{t('common.project')}</th>
+                <th>{t('common.material')}</th>
+                <th>{t('common.length')}</th>
+                <th>{t('common.count')}</th>
+                <th>{t('import.status')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => {
+                const mat = r.materialId ? materialMap.get(r.materialId) : undefined
+                // Over-length pieces that the material splits are planned as well
+                const tooLong = mat && r.lengthMm > maxUsableLength(mat)
+                  && !splitDemand({ id: '', project: r.project, materialId: mat.id, lengthMm: r.lengthMm }, mat)
+                return (
+                  <tr key={r.line} className={r.errors.length > 0 ? 'invalid' : ''}>
+                    <td>{r.line}</td>
+                    <td>{r.project}</td>
+                    <td>{r.materialName}</td>
+                    <td>{isNaN(r.lengthMm) ? '—' : formatMm(r.lengthMm)}</td>
+                    <td>{Number.isInteger(r.count) ? `${r.count}×` : '—'}</td>
+                    <td>
+                      {r.errors.length > 0
+                        ? <span className="too-long">{r.errors.join(', ')}</span>
+                        : tooLong ? <span className="too-long">{t('common.tooLong')}</span> : t('import.ok')}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          <div className="accept-row">
+            <button type="button" className="primary" disabled={pieceCount === 0} onClick={handleImport}>
+              {t('import.accept', { pieces: t('common.pieces', { count: pieceCount }) })}
+            </button>
+            {rows.length > valid.length && (
+              <span className="group-meta">
+                {t('import.skipped', { count: rows.length - valid.length })}
+              </span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import type { DisplayUnits, UnitSystem } from '../core/units'
+import { INCH_FRACTIONS } from '../core/units'
+import type { Locale } from '../core/i18n'
+import { LOCALES, LOCALE_NAMES, t } from '../core/i18n'
+
+export function DisplaySettings({
+  locale,
+  units,
+  onLocaleChange,
+  onUnitsChange,
+}: {
+  locale: Locale
+  units: DisplayUnits
+  onLocaleChange: (locale: Locale) => void
+  onUnitsChange: (units: DisplayUnits) => void
+}) {
+  return (
+    <div className="display-settings">
+      <label>{t('settings.language')}</label>
+      <select value={locale} onChange={e => onLocaleChange(e.target.value as Locale)}>
+        {LOCALES.map(l => <option key={l} value={l}>{LOCALE_NAMES[l]}</option>)}
+      </select>
+      <label>{t('settings.units')}</label>
+      <select
+        value={units.system}
+        onChange={e => onUnitsChange({ ...units, system: e.target.value as UnitSystem })}
+      >
+        <option value="metric">{t('settings.metric')}</option>
+        <option value="imperial">{t('settings.imperial')}</option>
+      </select>
+      {units.system === 'imperial' && (
+        <select
+          value={units.fraction}
+          onChange={e => onUnitsChange({ ...units, fraction: Number(e.target.value) })}
+          title={t('settings.precision')}
+        >
+          {INCH_FRACTIONS.map(f => <option key={f} value={f}>{t('settings.fraction', { fraction: f })}</option>)}
+        </select>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react'
+import type { History } from '../useHistory'
+import { t } from '../core/i18n'
+
+// Fields keep their own text undo
+function isTextField(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+export function HistoryBar({ history }: { history: History }) {
+  const historyRef = useRef(history)
+
+  useEffect(() => {
+    historyRef.current = history
+  })
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z and Ctrl+Y redo (Cmd on macOS)
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) historyRef.current.undo()
+      else if ((key === 'z' && e.shiftKey) || key === 'y') historyRef.current.redo()
+      else return
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  const { past, future } = history
+  if (past.length === 0 && future.length === 0) return null
+  const lastDone = past[past.length - 1]
+
+  return (
+    <div className="history-bar">
+      <button
+        type="button"
+        disabled={past.length === 0}
+        onClick={() => history.undo()}
+        title={lastDone ? t('history.undoHint', { action: lastDone }) : undefined}
+      >
+        {t('history.undo')}
+      </button>
+      <button
+        type="button"
+        disabled={future.length === 0}
+        onClick={() => history.redo()}
+        title={future[0] ? t('history.redoHint', { action: future[0] }) : undefined}
+      >
+        {t('history.redo')}
+      </button>
+      {lastDone && <span className="group-meta">{lastDone}</span>}
+
+      {/* Newest on top; choosing an entry restores the job right after that change */}
+      <details className="history-list">
+        <summary>{t('history.list')}</summary>
+        <ol>
+          {[...future.keys()].reverse().map(i => (
+            <li key={`f${i}`} className="undone">
+              <button type="button" className="link-btn" onClick={() => history.redo(i + 1)}>
+                {future[i]}
+              </button>
+            </li>
+          ))}
+          {[...past.keys()].reverse().map(i => (
+            <li key={`p${i}`} className={i === past.length - 1 ? 'current' : ''}>
+              <button
+                type="button"
+                className="link-btn"
+                disabled={i === past.length - 1}
+                onClick={() => history.undo(past.length - 1 - i)}
+              >
+                {past[i]}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </details>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { t } from '../core/i18n'
+
+// A value that turns into a text field on click. Enter or leaving the field
+// saves, Escape cancels. `onSave` returns false for input it cannot take;
+// the field then stays open and is marked invalid.
+export function InlineEdit({
+  value,
+  onSave,
+  children,
+  numeric = false,
+  title = t('common.editHint'),
+}: {
+  value: string
+  onSave: (text: string) => boolean
+  children?: ReactNode
+  numeric?: boolean
+  title?: string
+}) {
+  const [draft, setDraft] = useState<string | null>(null)
+  const [invalid, setInvalid] = useState(false)
+
+  function close() {
+    setDraft(null)
+    setInvalid(false)
+  }
+
+  function save() {
+    if (draft === null) return
+    if (draft.trim() === value || onSave(draft.trim())) close()
+    else setInvalid(true)
+  }
+
+  if (draft === null) {
+    return (
+      <button type="button" className="inline-edit" title={title} onClick={() => setDraft(value)}>
+        {children ?? value}
+      </button>
+    )
+  }
+
+  return (
+    <input
+      className={`inline-edit-input ${invalid ? 'invalid' : ''}`}
+      type="text"
+      inputMode={numeric ? 'decimal' : undefined}
+      value={draft}
+      autoFocus
+      onFocus={e => e.target.select()}
+      onChange={e => {
+        setDraft(e.target.value)
+        setInvalid(false)
+      }}
+      onBlur={save}
+      onKeyDown={e => {
+        if (e.key === 'Enter') save()
+        else if (e.key === 'Escape') close()
+      }}
+    />
+  )
+}
@@ -0,0 +1,121 @@
+import { useRef, useState } from 'react'
+import type { JobSummary } from '../jobStore'
+import type { JobFile } from '../core/jobFile'
+import { parseJobFile, serializeJobFile } from '../core/jobFile'
+import { t } from '../core/i18n'
+
+export function JobBar({
+  jobs,
+  current,
+  hasPlan,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+}: {
+  jobs: JobSummary[]
+  current: JobSummary
+  hasPlan: boolean
+  onOpen: (id: string) => void
+  onCreate: () => void
+  onRename: (name: string) => void
+  onDuplicate: () => void
+  onDelete: (id: string) => void
+  onExport: (withPlan: boolean) => JobFile
+  onImport: (file: JobFile) => void
+}) {
+  const [withPlan, setWithPlan] = useState(true)
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  // The store lags behind a rename or a fresh job until the next autosave
+  const options = jobs.some(j => j.id === current.id)
+    ? jobs.map(j => (j.id === current.id ? current : j))
+    : [current, ...jobs]
+
+  function handleDelete() {
+    if (!confirm(t('job.confirmDelete', { name: t('common.quoted', { text: current.name }) }))) return
+    onDelete(current.id)
+  }
+
+  function handleExport() {
+    const file = onExport(withPlan && hasPlan)
+    const blob = new Blob([serializeJobFile(file)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${current.name.trim() || t('job.label')}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  async function handleImport(file: File | undefined) {
+    if (!file) return
+    const parsed = parseJobFile(await file.text())
+    if (fileInput.current) fileInput.current.value = ''
+    if (!parsed.ok) {
+      setImportErrors({ fileName: file.name, errors: parsed.errors })
+      return
+    }
+    setImportErrors(null)
+    onImport({ ...parsed.file, name: parsed.file.name || file.name.replace(/\.json$/i, '') })
+  }
+
+  return (
+    <div className="card job-bar">
+      <div className="form-row">
+        <div className="form-group">
+          <label>{t('job.label')}</label>
+          <select value={current.id} onChange={e => onOpen(e.target.value)}>
+            {options.map(j => (
+              <option key={j.id} value={j.id}>{j.name || t('job.unnamed')}</option>
+            ))}
+          </select>
+        </div>
+        <div className="form-group">
+          <label>{t('job.name')}</label>
+          <input
+            type="text"
+            value={current.name}
+            onChange={e => onRename(e.target.value)}
+          />
+        </div>
+        <button type="button" onClick={onCreate}>{t('job.new')}</button>
+        <button type="button" onClick={onDuplicate}>{t('job.duplicate')}</button>
+        <button type="button" className="danger" onClick={handleDelete}>{t('job.delete')}</button>
+      </div>
+      <div className="form-row job-file-row">
+        <button type="button" onClick={handleExport}>{t('job.export')}</button>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={withPlan && hasPlan}
+            disabled={!hasPlan}
+            onChange={e => setWithPlan(e.target.checked)}
+          />
+          {t('job.withPlan')}
+        </label>
+        <button type="button" onClick={() => fileInput.current?.click()}>{t('job.import')}</button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={e => handleImport(e.target.files?.[0])}
+        />
+      </div>
+      {importErrors && (
+        <div className="import-errors">
+          <p>{t('job.importFailed', { file: importErrors.fileName, count: importErrors.errors.length })}</p>
+          <ul>
+            {importErrors.errors.map((err, i) => <li key={i}>{err}</li>)}
+          </ul>
+          <button type="button" onClick={() => setImportErrors(null)}>{t('common.close')}</button>
+        </div>
+      )}
+    </div>
+  )
+}
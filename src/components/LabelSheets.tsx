@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react'
+import type { CutPlan, Material } from '../core/types'
+import type { LabelSheet } from '../core/labels'
+import { LABEL_SHEETS, labelSize, paginateLabels, planLabels } from '../core/labels'
+import { formatMm, formatNumber } from '../core/format'
+import { t } from '../core/i18n'
+import { Barcode } from './Barcode'
+import { DecimalInput } from './DecimalInput'
+
+export function LabelSheets({
+  plan,
+  materials,
+  onClose,
+}: {
+  plan: CutPlan
+  materials: Material[]
+  onClose: () => void
+}) {
+  const [presetId, setPresetId] = useState(LABEL_SHEETS[0].id)
+  const [sheet, setSheet] = useState<LabelSheet>(LABEL_SHEETS[0].sheet)
+  const [skip, setSkip] = useState(0)
+
+  const labels = planLabels(plan, materials)
+  const pages = paginateLabels(labels, sheet, skip)
+  const { widthMm, heightMm } = labelSize(sheet)
+  const valid = widthMm > 0 && heightMm > 0
+
+  // The result section is what normally gets printed; swap it for the sheets
+  // while printing from here.
+  useEffect(() => {
+    const reset = () => document.body.classList.remove('print-labels')
+    window.addEventListener('afterprint', reset)
+    return () => {
+      window.removeEventListener('afterprint', reset)
+      reset()
+    }
+  }, [])
+
+  function choosePreset(id: string) {
+    const preset = LABEL_SHEETS.find(p => p.id === id)
+    setPresetId(id)
+    if (preset) setSheet(preset.sheet)
+  }
+
+  function update(field: keyof LabelSheet, n: number) {
+    if (isNaN(n) || n < 0) return
+    setPresetId('custom')
+    setSheet({ ...sheet, [field]: field === 'columns' || field === 'rows' ? Math.max(1, Math.round(n)) : n })
+  }
+
+  function print() {
+    document.body.classList.add('print-labels')
+    window.print()
+  }
+
+  return (
+    <div className="label-print">
+      <style>{`@page { size: ${sheet.pageWidthMm}mm ${sheet.pageHeightMm}mm; margin: 0 }`}</style>
+      <div className="card label-settings">
+        <div className="result-header">
+          <h2>{t('result.labels')}</h2>
+          <div className="result-actions">
+            <button className="primary" onClick={print} disabled={!valid || labels.length === 0}>
+              {t('labels.print')}
+            </button>
+            <button onClick={onClose}>&times;</button>
+          </div>
+        </div>
+        <div className="form-row">
+          <div className="form-group">
+            <label>{t('labels.sheet')}</label>
+            <select value={presetId} onChange={e => choosePreset(e.target.value)}>
+              {LABEL_SHEETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              <option value="custom">{t('labels.custom')}</option>
+            </select>
+          </div>
+          <div className="form-group small-input">
+            <label>{t('labels.columns')}</label>
+            <input type="number" min="1" value={sheet.columns} onChange={e => update('columns', parseFloat(e.target.value))} />
+          </div>
+          <div className="form-group small-input">
+            <label>{t('labels.rows')}</label>
+            <input type="number" min="1" value={sheet.rows} onChange={e => update('rows', parseFloat(e.target.value))} />
+          </div>
+          <div className="form-group small-input">
+            <label>{t('labels.margin')}</label>
+            <DecimalInput value={sheet.marginMm} onChange={v => update('marginMm', v)} />
+          </div>
+          <div className="form-group small-input">
+            <label>{t('labels.gap')}</label>
+            <DecimalInput value={sheet.gapMm} onChange={v => update('gapMm', v)} />
+          </div>
+          <div className="form-group small-input">
+            <label>{t('labels.skip')}</label>
+            <input
+              type="number"
+              min="0"
+              value={skip}
+              onChange={e => setSkip(Math.max(0, parseInt(e.target.value) || 0))}
+            />
+          </div>
+        </div>
+        <p className="group-meta">
+          {t('labels.summary', { count: labels.length, sheets: pages.length })}
+          {valid && ` · ${formatNumber(widthMm, 1)} × ${formatNumber(heightMm, 1)} mm`}
+        </p>
+      </div>
+
+      {valid && pages.map((page, pageIdx) => (
+        <div
+          key={pageIdx}
+          className="label-sheet"
+          style={{
+            width: `${sheet.pageWidthMm}mm`,
+            height: `${sheet.pageHeightMm}mm`,
+            padding: `${sheet.marginMm}mm`,
+            gap: `${sheet.gapMm}mm`,
+            gridTemplateColumns: `repeat(${sheet.columns}, ${widthMm}mm)`,
+            gridAutoRows: `${heightMm}mm`,
+          }}
+        >
+          {page.map((label, i) => (label ? (
+            <div key={i} className="label">
+              <div className="label-project">{label.demand.project}</div>
+              <div className="label-material">{label.materialName}</div>
+              <div className="label-length">
+                {formatMm(label.demand.lengthMm)}
+                {label.demand.segment && (
+                  <span className="label-segment">
+                    {' '}{t('labels.part', { index: label.demand.segment.index, count: label.demand.segment.count })}
+                  </span>
+                )}
+              </div>
+              <div className="label-position">
+                {t('labels.position', { pipe: label.pipeNumber, cut: label.cutNumber, count: label.cutCount })}
+              </div>
+              <Barcode value={label.demand.id} />
+              <div className="label-code">{label.demand.id}</div>
+            </div>
+          ) : <div key={i} />))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useRef, useState } from 'react'
+import type { Material, PipeProperties } from '../core/types'
+import type { CatalogEntry } from '../core/catalog'
+import { STANDARD_CATALOG, materialFromCatalog, parseCatalogFile, serializeCatalog, weightPerMeter } from '../core/catalog'
+import { formatMm, formatNumber } from '../core/format'
+import { t } from '../core/i18n'
+import { nextId } from '../ids'
+
+/** Type, size and weight of a pipe in one line; empty if nothing is known */
+export function describePipe(pipe: PipeProperties | undefined): string {
+  if (!pipe) return ''
+  const parts: string[] = []
+  if (pipe.materialType) parts.push(t(`pipeMaterial.${pipe.materialType}`))
+  if (pipe.dn !== undefined) parts.push(`DN ${pipe.dn}`)
+  if (pipe.outerDiameterMm !== undefined) {
+    const wall = pipe.wallThicknessMm !== undefined ? ` × ${formatNumber(pipe.wallThicknessMm, 1)}` : ''
+    parts.push(`Ø ${formatNumber(pipe.outerDiameterMm, 1)}${wall} mm`)
+  }
+  const kg = weightPerMeter(pipe)
+  if (kg !== undefined) parts.push(t('catalog.weightPerMeter', { weight: formatNumber(kg, 2) }))
+  return parts.join(' · ')
+}
+
+export function MaterialCatalog({
+  entries,
+  onChange,
+  onAdd,
+}: {
+  entries: CatalogEntry[]
+  onChange: (entries: CatalogEntry[]) => void
+  onAdd: (m: Material) => void
+}) {
+  const [selectedId, setSelectedId] = useState(entries[0]?.id ?? '')
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const selected = entries.find(e => e.id === selectedId) ?? entries[0]
+
+  function handleDelete() {
+    if (!selected) return
+    onChange(entries.filter(e => e.id !== selected.id))
+  }
+
+  function handleReset() {
+    if (!confirm(t('catalog.confirmReset'))) return
+    onChange(STANDARD_CATALOG)
+    setSelectedId(STANDARD_CATALOG[0].id)
+  }
+
+  function handleExport() {
+    const blob = new Blob([serializeCatalog(entries)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${t('catalog.fileName')}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Imported entries replace those with the same id, the rest are appended
+  async function handleImport(file: File | undefined) {
+    if (!file) return
+    const parsed = parseCatalogFile(await file.text())
+    if (fileInput.current) fileInput.current.value = ''
+    if (!parsed.ok) {
+      setImportErrors({ fileName: file.name, errors: parsed.errors })
+      return
+    }
+    setImportErrors(null)
+    const imported = new Map(parsed.entries.map(e => [e.id, e]))
+    const merged = entries.map(e => imported.get(e.id) ?? e)
+    onChange([...merged, ...parsed.entries.filter(e => !entries.some(existing => existing.id === e.id))])
+  }
+
+  return (
+    <div className="material-catalog">
+      <div className="form-row">
+        <div className="form-group">
+          <label>{t('catalog.title')}</label>
+          <select value={selected?.id ?? ''} onChange={e => setSelectedId(e.target.value)} disabled={entries.length === 0}>
+            {entries.map(e => (
+              <option key={e.id} value={e.id}>
+                {[e.name, describePipe(e.pipe), e.stockLengthsMm.map(l => formatMm(l)).join(' / ')].filter(Boolean).join(' · ')}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button type="button" className="primary" disabled={!selected} onClick={() => selected && onAdd(materialFromCatalog(selected, nextId))}>
+          {t('catalog.use')}
+        </button>
+        <button type="button" className="danger" disabled={!selected} onClick={handleDelete}>
+          {t('catalog.delete')}
+        </button>
+      </div>
+      <div className="form-row">
+        <button type="button" onClick={handleExport}>{t('catalog.export')}</button>
+        <button type="button" onClick={() => fileInput.current?.click()}>{t('catalog.import')}</button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={e => handleImport(e.target.files?.[0])}
+        />
+        <button type="button" onClick={handleReset}>{t('catalog.reset')}</button>
+      </div>
+      {importErrors && (
+        <div className="import-errors">
+          <p>{t('job.importFailed', { file: importErrors.fileName, count: importErrors.errors.length })}</p>
+          <ul>
+            {importErrors.errors.map((err, i) => <li key={i}>{err}</li>)}
+          </ul>
+          <button type="button" onClick={() => setImportErrors(null)}>{t('common.close')}</button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import type { ProjectPriority, SolverSettings } from '../core/types'
+import { t } from '../core/i18n'
+
+export function ProjectPriorities({
+  projects,
+  settings,
+  onSettingsChange,
+}: {
+  projects: string[]
+  settings: SolverSettings
+  onSettingsChange: (settings: SolverSettings) => void
+}) {
+  const priorities = settings.projectPriorities ?? {}
+
+  function update(project: string, changes: ProjectPriority) {
+    const entry = { ...priorities[project], ...changes }
+    const next = { ...priorities }
+    if (entry.priority === undefined && !entry.dueDate) delete next[project]
+    else next[project] = entry
+    onSettingsChange({ ...settings, projectPriorities: next })
+  }
+
+  return (
+    <div className="card project-priorities">
+      <h3>{t('priority.title')}</h3>
+      <p className="group-meta">{t('priority.hint')}</p>
+      <table>
+        <thead>
+          <tr>
+            <th>{t('common.project')}</th>
+            <th>{t('priority.priority')}</th>
+            <th>{t('priority.dueDate')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {projects.map(project => (
+            <tr key={project}>
+              <td>{project}</td>
+              <td>
+                <input
+                  type="number"
+                  min="1"
+                  value={priorities[project]?.priority ?? ''}
+                  onChange={e => {
+                    const n = parseInt(e.target.value)
+                    update(project, { priority: n >= 1 ? n : undefined })
+                  }}
+                />
+              </td>
+              <td>
+                <input
+                  type="date"
+                  value={priorities[project]?.dueDate ?? ''}
+                  onChange={e => update(project, { dueDate: e.target.value || undefined })}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import type { CutPlan, Material, ProjectMixing, SolverSettings } from '../core/types'
+import { planUsage } from '../core/projects'
+import { planCosts } from '../core/costs'
+import { formatNumber, formatPrice, formatTotalLength } from '../core/format'
+import { t } from '../core/i18n'
+
+const MIXING_OPTIONS: ProjectMixing[] = ['free', 'minimize', 'groups', 'separate']
+
+export function ProjectSeparation({
+  projects,
+  plan,
+  unconstrained,
+  materials,
+  minRemnantMm,
+  settings,
+  onSettingsChange,
+}: {
+  projects: string[]
+  plan: CutPlan
+  unconstrained?: CutPlan
+  materials: Material[]
+  minRemnantMm: number
+  settings: SolverSettings
+  onSettingsChange: (settings: SolverSettings) => void
+}) {
+  const mixing = settings.projectMixing ?? 'free'
+  const groups = settings.projectGroups ?? {}
+  const groupNames = [...new Set(Object.values(groups).map(g => g.trim()).filter(Boolean))]
+
+  const usage = planUsage(plan)
+  const free = unconstrained ? planUsage(unconstrained) : null
+  const extraCost = unconstrained
+    ? planCosts(plan, materials, minRemnantMm).materialCost - planCosts(unconstrained, materials, minRemnantMm).materialCost
+    : 0
+
+  function setGroup(project: string, group: string) {
+    onSettingsChange({ ...settings, projectGroups: { ...groups, [project]: group } })
+  }
+
+  return (
+    <div className="card project-separation">
+      <div className="form-row">
+        <div className="form-group">
+          <label>{t('mixing.label')}</label>
+          <select
+            value={mixing}
+            onChange={e => onSettingsChange({ ...settings, projectMixing: e.target.value as ProjectMixing })}
+          >
+            {MIXING_OPTIONS.map(m => (
+              <option key={m} value={m}>{t(`mixing.${m}`)}</option>
+            ))}
+          </select>
+        </div>
+        <span className="group-meta">{t('mixing.perPipe', { value: formatNumber(usage.projectsPerPipe, 2, 2) })}</span>
+      </div>
+
+      {mixing === 'groups' && (
+        <div className="project-groups">
+          {projects.map(project => (
+            <div key={project} className="form-group">
+              <label>{project}</label>
+              <input
+                type="text"
+                list="project-group-names"
+                placeholder={t('mixing.ownGroup')}
+                value={groups[project] ?? ''}
+                onChange={e => setGroup(project, e.target.value)}
+              />
+            </div>
+          ))}
+          <datalist id="project-group-names">
+            {groupNames.map(g => <option key={g} value={g} />)}
+          </datalist>
+        </div>
+      )}
+
+      {free && (
+        <p className="group-meta">
+          {usage.bars > free.bars || usage.stockMm > free.stockMm
+            ? <>
+                {t('mixing.extra', { bars: usage.bars - free.bars, length: formatTotalLength(usage.stockMm - free.stockMm) })}
+                {extraCost > 0 && <>, +{formatPrice(extraCost)}</>}
+              </>
+            : t('mixing.noExtra')}
+          {' '}{t('mixing.mixed', { bars: free.bars, value: formatNumber(free.projectsPerPipe, 2, 2) })}
+        </p>
+      )}
+    </div>
+  )
+}
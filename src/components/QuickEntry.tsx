@@ -0,0 +1,128 @@
+import { useRef, useState } from 'react'
+import type { KeyboardEvent } from 'react'
+import type { Demand, Material } from '../core/types'
+import type { QuickEntryDefaults } from '../core/quickEntry'
+import { parseQuickEntry, quickCompletions, quickEntryDemands } from '../core/quickEntry'
+import { formatMm } from '../core/format'
+import { t } from '../core/i18n'
+import { nextId } from '../ids'
+
+const MAX_SUGGESTIONS = 8
+
+export function QuickEntry({
+  materials,
+  projects,
+  defaults,
+  onDefaultsChange,
+  onAdd,
+  onImport,
+  onClose,
+}: {
+  materials: Material[]
+  /** Projects already in the job, offered for completion */
+  projects: string[]
+  defaults: QuickEntryDefaults
+  onDefaultsChange: (defaults: Pick<QuickEntryDefaults, 'project' | 'materialId'>) => void
+  onAdd: (list: Demand[]) => void
+  onImport: (demands: Demand[]) => void
+  onClose: () => void
+}) {
+  const [text, setText] = useState('')
+  const [caret, setCaret] = useState(0)
+  const input = useRef<HTMLTextAreaElement>(null)
+
+  const lines = parseQuickEntry(text, materials, defaults)
+  const valid = lines.filter(l => l.errors.length === 0)
+  const completion = quickCompletions(text.slice(0, caret), materials, projects)
+  const suggestions = completion.suggestions.slice(0, MAX_SUGGESTIONS)
+  const materialMap = new Map(materials.map(m => [m.id, m]))
+
+  function complete(suggestion: string) {
+    const start = caret - completion.replace
+    const inserted = `${suggestion} `
+    setText(text.slice(0, start) + inserted + text.slice(caret))
+    const position = start + inserted.length
+    setCaret(position)
+    requestAnimationFrame(() => {
+      input.current?.focus()
+      input.current?.setSelectionRange(position, position)
+    })
+  }
+
+  // Valid lines are added, faulty ones stay in the box to be corrected
+  function submit() {
+    if (valid.length === 0) return
+    const demands = valid.flatMap(l => quickEntryDemands(l, nextId))
+    if (valid.length === 1) onAdd(demands)
+    else onImport(demands)
+    const last = valid[valid.length - 1]
+    onDefaultsChange({ project: last.project, materialId: last.materialId! })
+    const faulty = new Set(lines.filter(l => l.errors.length > 0).map(l => l.line))
+    const rest = text.split(/\r?\n/).filter((_, i) => faulty.has(i + 1)).join('\n')
+    setText(rest)
+    setCaret(rest.length)
+  }
+
+  function handleKeyDown(e: KeyboardEvent<HTMLTextAreaElement>) {
+    if (e.key === 'Tab' && suggestions.length > 0) {
+      e.preventDefault()
+      complete(suggestions[0])
+    } else if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      submit()
+    }
+  }
+
+  return (
+    <div className="quick-entry">
+      <textarea
+        ref={input}
+        rows={Math.max(1, text.split('\n').length)}
+        value={text}
+        onChange={e => {
+          setText(e.target.value)
+          setCaret(e.target.selectionStart)
+        }}
+        onSelect={e => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('quick.placeholder')}
+        spellCheck={false}
+        autoFocus
+      />
+      {suggestions.length > 0 && (
+        <div className="quick-suggestions">
+          {suggestions.map(s => (
+            <button key={s} type="button" onMouseDown={e => e.preventDefault()} onClick={() => complete(s)}>
+              {s}
+            </button>
+          ))}
+          <span className="group-meta">{t('quick.tabHint')}</span>
+        </div>
+      )}
+      {lines.length > 0 && (
+        <ul className="quick-preview">
+          {lines.map(l => (
+            <li key={l.line} className={l.errors.length > 0 ? 'too-long' : ''}>
+              {lines.length > 1 && `${t('import.line')} ${l.line}: `}
+              {l.errors.length > 0
+                ? l.errors.join(', ')
+                : [
+                    `${l.count}× ${formatMm(l.lengthMm)}`
+                      + (l.minLengthMm !== undefined ? ` (≥ ${formatMm(l.minLengthMm)})` : ''),
+                    materialMap.get(l.materialId!)?.name,
+                    l.project,
+                  ].join(' · ')}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="form-row">
+        <button type="button" className="primary" disabled={valid.length === 0} onClick={submit}>
+          {t('import.accept', { pieces: t('common.pieces', { count: valid.reduce((sum, l) => sum + l.count, 0) }) })}
+        </button>
+        <button type="button" onClick={onClose}>{t('quick.form')}</button>
+      </div>
+      <p className="group-meta">{t('quick.hint')}</p>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+import type { Material, SolverSettings } from '../core/types'
+import { STRATEGIES, activeStrategy, planMetrics, strategySettings } from '../core/strategies'
+import type { PlanMetrics } from '../core/strategies'
+import { formatPercent, formatPrice, formatTotalLength } from '../core/format'
+import { t } from '../core/i18n'
+import type { MessageKey } from '../core/i18n'
+import type { ComparisonState } from '../useComparison'
+
+const COLUMNS: { label: MessageKey; value: (m: PlanMetrics) => number | null; format: (v: number) => string; lowerIsBetter: boolean }[] = [
+  { label: 'result.pipes', value: m => m.bars, format: v => String(v), lowerIsBetter: true },
+  { label: 'comparison.remnants', value: m => m.remnantsUsed, format: v => String(v), lowerIsBetter: false },
+  { label: 'result.efficiency', value: m => m.efficiency, format: v => formatPercent(v), lowerIsBetter: false },
+  { label: 'result.scrap', value: m => m.scrapMm, format: v => formatTotalLength(v), lowerIsBetter: true },
+  { label: 'result.patterns', value: m => m.patterns, format: v => String(v), lowerIsBetter: true },
+  { label: 'comparison.sawPasses', value: m => m.sawPasses, format: v => String(v), lowerIsBetter: true },
+  { label: 'result.costs', value: m => m.cost, format: formatPrice, lowerIsBetter: true },
+  { label: 'comparison.unassigned', value: m => m.unassigned, format: v => String(v), lowerIsBetter: true },
+]
+
+export function StrategyComparison({
+  comparison,
+  materials,
+  minRemnantMm,
+  settings,
+  onAdopt,
+}: {
+  comparison: ComparisonState
+  materials: Material[]
+  minRemnantMm: number
+  settings: SolverSettings
+  onAdopt: (settings: SolverSettings) => void
+}) {
+  const { results, running, progress, error } = comparison
+  const active = activeStrategy(settings)
+  const rows = (results ?? []).map(r => ({
+    strategy: STRATEGIES.find(s => s.id === r.id)!,
+    metrics: planMetrics(r.result, materials, minRemnantMm),
+  }))
+
+  // Best value per column, to highlight it
+  const best = COLUMNS.map(col => {
+    const values = rows.map(r => col.value(r.metrics)).filter((v): v is number => v !== null)
+    if (values.length === 0) return null
+    return col.lowerIsBetter ? Math.min(...values) : Math.max(...values)
+  })
+
+  return (
+    <div className="card strategy-comparison">
+      <div className="result-header">
+        <h3>{t('comparison.title')}</h3>
+        {progress
+          ? <button type="button" onClick={comparison.cancel}>{t('common.cancel')}</button>
+          : <button type="button" onClick={comparison.run}>{t(results ? 'comparison.rerun' : 'comparison.run')}</button>}
+      </div>
+
+      {progress && (
+        <p className="calc-status">
+          {t('common.calculating')}
+          {running && ` ${t(`strategy.${running}`)} (${progress.done + 1}/${progress.total})`}
+        </p>
+      )}
+      {error && <p className="calc-status error">{t('comparison.failed', { error })}</p>}
+
+      {rows.length > 0 && (
+        <table>
+          <thead>
+            <tr>
+              <th>{t('comparison.strategy')}</th>
+              {COLUMNS.map(col => <th key={col.label}>{t(col.label)}</th>)}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ strategy, metrics }) => (
+              <tr key={strategy.id} className={strategy.id === active ? 'active-strategy' : ''}>
+                <td>{t(`strategy.${strategy.id}`)}</td>
+                {COLUMNS.map((col, i) => {
+                  const value = col.value(metrics)
+                  return (
+                    <td key={col.label} className={value !== null && value === best[i] && rows.length > 1 ? 'best-value' : ''}>
+                      {value === null ? '–' : col.format(value)}
+                    </td>
+                  )
+                })}
+                <td>
+                  {strategy.id === active
+                    ? <span className="group-meta">{t('comparison.active')}</span>
+                    : (
+                      <button type="button" onClick={() => onAdopt(strategySettings(settings, strategy))}>
+                        {t('comparison.adopt')}
+                      </button>
+                    )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
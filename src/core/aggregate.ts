@@ -0,0 +1,35 @@
+import type { Demand } from './types'
+
+/** Identical pieces (same material, project, length and tolerance) counted together */
+export interface AggregatedDemand {
+  key: string
+  project: string
+  materialId: string
+  lengthMm: number
+  minLengthMm?: number
+  count: number
+  ids: string[]
+}
+
+export function aggregateDemands(demands: Demand[]): AggregatedDemand[] {
+  const map = new Map<string, AggregatedDemand>()
+  for (const d of demands) {
+    const key = `${d.materialId}|${d.project}|${d.lengthMm}|${d.minLengthMm ?? ''}`
+    const existing = map.get(key)
+    if (existing) {
+      existing.count++
+      existing.ids.push(d.id)
+    } else {
+      map.set(key, {
+        key,
+        project: d.project,
+        materialId: d.materialId,
+        lengthMm: d.lengthMm,
+        minLengthMm: d.minLengthMm,
+        count: 1,
+        ids: [d.id],
+      })
+    }
+  }
+  return [...map.values()]
+}
@@ -0,0 +1,187 @@
+import type { Material, PipeMaterialType, PipeProperties } from './types'
+import { DEFAULT_END_WASTE_MM, DEFAULT_KERF_MM, DEFAULT_START_WASTE_MM } from './constants'
+import { t } from './i18n'
+
+export const PIPE_MATERIAL_TYPES: PipeMaterialType[] = ['copper', 'steel', 'stainless', 'aluminium', 'pe', 'pp', 'pvc']
+
+/** kg/m³ */
+const DENSITIES: Record<PipeMaterialType, number> = {
+  copper: 8940,
+  steel: 7850,
+  stainless: 7900,
+  aluminium: 2700,
+  pe: 950,
+  pp: 910,
+  pvc: 1400,
+}
+
+/** A material as it is bought, ready to be added to any job */
+export interface CatalogEntry {
+  id: string
+  name: string
+  pipe: PipeProperties
+  /** Bar lengths it is sold in */
+  stockLengthsMm: number[]
+  pricePerMeter?: number
+}
+
+/** Stated weight, else derived from the cross-section and the density */
+export function weightPerMeter(pipe: PipeProperties | undefined): number | undefined {
+  if (!pipe) return undefined
+  if (pipe.weightPerMeterKg !== undefined) return pipe.weightPerMeterKg
+  const { outerDiameterMm: od, wallThicknessMm: wall, materialType } = pipe
+  if (od === undefined || wall === undefined || !materialType || wall <= 0 || wall * 2 > od) return undefined
+  return Math.PI * wall * (od - wall) * DENSITIES[materialType] * 1e-6
+}
+
+/** A job material from a catalog entry, with the default saw settings */
+export function materialFromCatalog(entry: CatalogEntry, nextId: () => string): Material {
+  return {
+    id: nextId(),
+    name: entry.name,
+    stocks: entry.stockLengthsMm.map(lengthMm => ({ id: nextId(), lengthMm })),
+    remnants: [],
+    kerfMm: DEFAULT_KERF_MM,
+    startWasteMm: DEFAULT_START_WASTE_MM,
+    endWasteMm: DEFAULT_END_WASTE_MM,
+    pricePerMeter: entry.pricePerMeter,
+    pipe: { ...entry.pipe },
+  }
+}
+
+/** A catalog entry from a job material; stock prices and counts stay with the job */
+export function catalogEntryFrom(mat: Material, id: string): CatalogEntry {
+  return {
+    id,
+    name: mat.name,
+    pipe: { ...mat.pipe },
+    stockLengthsMm: [...new Set(mat.stocks.map(s => s.lengthMm))],
+    pricePerMeter: mat.pricePerMeter,
+  }
+}
+
+// ── Standard entries ───────────────────────────────────────────────
+
+const copper = (od: number, wall: number): CatalogEntry => ({
+  id: `cu-${od}x${wall}`,
+  name: `Cu ${od}×${wall}`,
+  pipe: { materialType: 'copper', outerDiameterMm: od, wallThicknessMm: wall },
+  stockLengthsMm: [5000],
+})
+
+// EN 10255 medium series
+const steel = (dn: number, od: number, wall: number): CatalogEntry => ({
+  id: `st-dn${dn}`,
+  name: `St DN ${dn}`,
+  pipe: { materialType: 'steel', dn, outerDiameterMm: od, wallThicknessMm: wall },
+  stockLengthsMm: [6000],
+})
+
+const stainless = (dn: number, od: number, wall: number): CatalogEntry => ({
+  id: `va-${od}x${wall}`,
+  name: `VA ${od}×${wall}`,
+  pipe: { materialType: 'stainless', dn, outerDiameterMm: od, wallThicknessMm: wall },
+  stockLengthsMm: [6000],
+})
+
+export const STANDARD_CATALOG: CatalogEntry[] = [
+  copper(15, 1),
+  copper(18, 1),
+  copper(22, 1),
+  copper(28, 1.5),
+  copper(35, 1.5),
+  copper(42, 1.5),
+  steel(15, 21.3, 2.6),
+  steel(20, 26.9, 2.6),
+  steel(25, 33.7, 3.2),
+  steel(32, 42.4, 3.2),
+  steel(40, 48.3, 3.2),
+  steel(50, 60.3, 3.6),
+  stainless(12, 15, 1),
+  stainless(15, 18, 1),
+  stainless(20, 22, 1.2),
+  stainless(25, 28, 1.2),
+  stainless(32, 35, 1.5),
+  stainless(40, 42, 1.5),
+]
+
+// ── File format ────────────────────────────────────────────────────
+
+export const CATALOG_FILE_FORMAT = 'pipe-optimizer-catalog'
+export const CATALOG_FILE_VERSION = 1
+
+export interface CatalogFile {
+  format: typeof CATALOG_FILE_FORMAT
+  version: number
+  entries: CatalogEntry[]
+}
+
+export type CatalogFileResult =
+  | { ok: true; entries: CatalogEntry[] }
+  | { ok: false; errors: string[] }
+
+export function serializeCatalog(entries: CatalogEntry[]): string {
+  const file: CatalogFile = { format: CATALOG_FILE_FORMAT, version: CATALOG_FILE_VERSION, entries }
+  return JSON.stringify(file, null, 2)
+}
+
+export function parseCatalogFile(text: string): CatalogFileResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: [t('file.invalidJson')] }
+  }
+  if (!isObject(raw) || raw.format !== CATALOG_FILE_FORMAT) {
+    return { ok: false, errors: [t('file.notCatalog')] }
+  }
+  if (typeof raw.version !== 'number' || raw.version > CATALOG_FILE_VERSION) {
+    return { ok: false, errors: [t('file.unknownVersion')] }
+  }
+  if (!Array.isArray(raw.entries)) return { ok: false, errors: [t('file.notList', { key: 'entries' })] }
+
+  const errors: string[] = []
+  const ids = new Set<string>()
+  raw.entries.forEach((entry: unknown, i) => {
+    const where = t('file.entry', { number: i + 1 })
+    if (!isObject(entry)) {
+      errors.push(`${where}: ${t('file.notObject')}`)
+      return
+    }
+    if (typeof entry.id !== 'string' || !entry.id) errors.push(`${where}: ${t('file.notText', { key: 'id' })}`)
+    else if (ids.has(entry.id)) errors.push(`${where}: ${t('file.duplicateId', { id: entry.id })}`)
+    else ids.add(entry.id)
+    if (typeof entry.name !== 'string' || !entry.name.trim()) errors.push(`${where}: ${t('file.notText', { key: 'name' })}`)
+    if (!Array.isArray(entry.stockLengthsMm) || !entry.stockLengthsMm.every(isPositive)) {
+      errors.push(`${where}: ${t('file.notLengthList', { key: 'stockLengthsMm' })}`)
+    }
+    if (entry.pricePerMeter !== undefined && !(isPositive(entry.pricePerMeter) || entry.pricePerMeter === 0)) {
+      errors.push(`${where}: ${t('file.notAtLeastZero', { key: 'pricePerMeter' })}`)
+    }
+    errors.push(...pipePropertyErrors(entry.pipe, where))
+  })
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, entries: raw.entries as CatalogEntry[] }
+}
+
+/** Problems with the pipe data of a catalog entry or job material */
+export function pipePropertyErrors(value: unknown, where: string): string[] {
+  if (!isObject(value)) return [`${where}: ${t('file.keyNotObject', { key: 'pipe' })}`]
+  const errors: string[] = []
+  if (value.materialType !== undefined && !PIPE_MATERIAL_TYPES.includes(value.materialType as PipeMaterialType)) {
+    const values = PIPE_MATERIAL_TYPES.map(text => t('common.quoted', { text })).join(', ')
+    errors.push(`${where}: ${t('file.oneOf', { key: 'materialType', values })}`)
+  }
+  for (const key of ['dn', 'outerDiameterMm', 'wallThicknessMm', 'weightPerMeterKg']) {
+    if (value[key] !== undefined && !isPositive(value[key])) errors.push(`${where}: ${t('file.notPositive', { key, value: String(value[key]) })}`)
+  }
+  return errors
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
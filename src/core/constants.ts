@@ -0,0 +1,11 @@
+// Defaults for new materials
+export const DEFAULT_KERF_MM = 2
+export const DEFAULT_START_WASTE_MM = 110
+export const DEFAULT_END_WASTE_MM = 0
+
+// Shorter offcuts are scrapped rather than put back on the rack
+export const DEFAULT_MIN_REMNANT_MM = 500
+
+// Defaults when splitting of over-length pieces is switched on
+export const DEFAULT_JOINT_ALLOWANCE_MM = 0
+export const DEFAULT_MIN_SEGMENT_MM = 500
@@ -0,0 +1,61 @@
+import type { CutPlan, Material } from './types'
+import { barPrice } from './materials'
+import { scrapLength } from './remnants'
+
+export interface CostBreakdown {
+  /** New bars; remnants from the rack are already paid for */
+  materialCost: number
+  labourCost: number
+  total: number
+  /** Part of the material cost that ends up as scrap */
+  wasteCost: number
+  /** Material and labour per project; sums up to the total */
+  perProject: Record<string, number>
+  /** False if a bar without price was used; it is missing from the sums */
+  complete: boolean
+}
+
+// A bar's price is shared by its pieces in proportion to their length, so
+// the projects also carry the scrap they cause.
+export function planCosts(plan: CutPlan, materials: Material[], minRemnantMm: number): CostBreakdown {
+  const materialMap = new Map(materials.map(m => [m.id, m]))
+  const costs: CostBreakdown = {
+    materialCost: 0,
+    labourCost: 0,
+    total: 0,
+    wasteCost: 0,
+    perProject: {},
+    complete: true,
+  }
+  const addTo = (project: string, amount: number) => {
+    costs.perProject[project] = (costs.perProject[project] ?? 0) + amount
+  }
+
+  for (const [materialId, pipes] of Object.entries(plan)) {
+    const mat = materialMap.get(materialId)
+    if (!mat) continue
+    for (const pipe of pipes) {
+      let price = 0
+      if (!pipe.remnantId) {
+        const stock = mat.stocks.find(s => s.id === pipe.stockId)
+        const known = stock && barPrice(mat, stock)
+        if (known === undefined) costs.complete = false
+        else price = known
+      }
+
+      const cutSum = pipe.cuts.reduce((sum, c) => sum + c.lengthMm, 0)
+      const scrapMm = scrapLength(pipe, mat, minRemnantMm)
+      costs.materialCost += price
+      costs.wasteCost += (price * scrapMm) / pipe.stockLengthMm
+
+      for (const cut of pipe.cuts) {
+        const labour = mat.cutCost ?? 0
+        costs.labourCost += labour
+        addTo(cut.project, labour + (cutSum > 0 ? (price * cut.lengthMm) / cutSum : 0))
+      }
+    }
+  }
+
+  costs.total = costs.materialCost + costs.labourCost
+  return costs
+}
@@ -0,0 +1,112 @@
+import type { CutPlan, Demand, Material, Pipe } from './types'
+
+export interface CutListCut {
+  demand: Demand
+  /** Distance from the start of the bar to the saw cut, allowance and kerfs included */
+  positionMm: number
+  /** The length stop has to be moved before this cut */
+  newStop: boolean
+}
+
+export interface CutListPipe {
+  /** 1-based, numbered per material as in the result view */
+  pipeNumber: number
+  pipe: Pipe
+  /** In the order they are sawn */
+  cuts: CutListCut[]
+}
+
+export interface CutListMaterial {
+  materialId: string
+  material: string
+  /** In the order they are sawn */
+  pipes: CutListPipe[]
+  stopChanges: number
+  /** Stop changes when sawing in the order of the plan, for comparison */
+  planStopChanges: number
+}
+
+interface PatternGroup {
+  pipes: { pipe: Pipe; pipeNumber: number }[]
+  shortest: number
+  longest: number
+}
+
+// Pipes with the same bar and the same lengths are sawn one after the other.
+// Each pipe is cut shortest or longest piece first, whichever matches the
+// stop left by the pipe before; identical pipes so alternate direction and
+// share the stop across the change of bar. The next pattern is one that can
+// start at the current stop, otherwise the one with the longest piece.
+// Locked pipes are already cut and left out.
+export function planCutList(plan: CutPlan, materials: Material[]): CutListMaterial[] {
+  const lists: CutListMaterial[] = []
+
+  for (const mat of materials) {
+    const pipes = (plan[mat.id] ?? [])
+      .map((pipe, i) => ({ pipe, pipeNumber: i + 1 }))
+      .filter(({ pipe }) => !pipe.locked && pipe.cuts.length > 0)
+    if (pipes.length === 0) continue
+
+    const groups = new Map<string, PatternGroup>()
+    for (const entry of pipes) {
+      const lengths = entry.pipe.cuts.map(c => c.lengthMm).sort((a, b) => a - b)
+      const key = `${entry.pipe.stockLengthMm}|${lengths.join(',')}`
+      const group = groups.get(key) ?? { pipes: [], shortest: lengths[0], longest: lengths[lengths.length - 1] }
+      group.pipes.push(entry)
+      groups.set(key, group)
+    }
+
+    const open = [...groups.values()]
+    const sequenced: CutListPipe[] = []
+    let stop: number | null = null
+    while (open.length > 0) {
+      const fits = (g: PatternGroup) => g.shortest === stop || g.longest === stop
+      const next = open.reduce((best, g) => {
+        if (fits(g) !== fits(best)) return fits(g) ? g : best
+        if (g.longest !== best.longest) return g.longest > best.longest ? g : best
+        return g.pipes.length > best.pipes.length ? g : best
+      })
+      open.splice(open.indexOf(next), 1)
+
+      for (const { pipe, pipeNumber } of next.pipes) {
+        const ascending = stop === next.shortest && stop !== next.longest
+        const cuts = [...pipe.cuts].sort((a, b) => (ascending ? a.lengthMm - b.lengthMm : b.lengthMm - a.lengthMm))
+        sequenced.push({ pipeNumber, pipe, cuts: sawCuts(cuts, mat, stop) })
+        stop = cuts[cuts.length - 1].lengthMm
+      }
+    }
+
+    let planStop: number | null = null
+    let planStopChanges = 0
+    for (const { pipe } of pipes) {
+      for (const c of pipe.cuts) {
+        if (c.lengthMm !== planStop) planStopChanges++
+        planStop = c.lengthMm
+      }
+    }
+
+    lists.push({
+      materialId: mat.id,
+      material: mat.name,
+      pipes: sequenced,
+      stopChanges: sequenced.reduce((sum, p) => sum + p.cuts.filter(c => c.newStop).length, 0),
+      planStopChanges,
+    })
+  }
+
+  return lists
+}
+
+function sawCuts(cuts: Demand[], mat: Material, stop: number | null): CutListCut[] {
+  let position = mat.startWasteMm
+  return cuts.map((demand, i) => {
+    position += demand.lengthMm
+    const cut = {
+      demand,
+      positionMm: position,
+      newStop: demand.lengthMm !== (i === 0 ? stop : cuts[i - 1].lengthMm),
+    }
+    position += mat.kerfMm
+    return cut
+  })
+}
@@ -0,0 +1,196 @@
+import type { Material } from './types'
+import { parseDecimal, parseLength, parseUnit } from './units'
+import type { LengthUnit } from './units'
+import { t } from './i18n'
+
+// Turns spreadsheet rows (CSV file or tab-separated clipboard paste) into
+// demand rows. Nothing here creates demands; the caller decides what to add.
+
+export type DemandColumn = 'project' | 'material' | 'length' | 'unit' | 'count'
+
+/** Column index per field, -1 when the field is not in the table */
+export type ColumnMapping = Record<DemandColumn, number>
+
+export interface ImportDefaults {
+  project: string
+  materialId: string
+  unit: LengthUnit
+}
+
+export interface ImportRow {
+  /** 1-based row in the table, header included */
+  line: number
+  project: string
+  materialName: string
+  /** Matched material, null if the name is unknown */
+  materialId: string | null
+  lengthMm: number
+  count: number
+  errors: string[]
+}
+
+const HEADER_NAMES: Record<DemandColumn, string[]> = {
+  project: ['projekt', 'project', 'auftrag', 'baustelle', 'position', 'pos'],
+  material: ['material', 'werkstoff', 'artikel', 'rohr', 'profil', 'bezeichnung'],
+  length: ['länge', 'laenge', 'length', 'lg', 'maß', 'mass'],
+  unit: ['einheit', 'unit', 'me'],
+  count: ['anzahl', 'menge', 'stück', 'stk', 'count', 'qty', 'quantity'],
+}
+
+const DEFAULT_ORDER: DemandColumn[] = ['project', 'material', 'length', 'count']
+
+// ── Parsing ────────────────────────────────────────────────────────
+
+// Tab wins if the first line has one (clipboard from Excel), then semicolon
+// (German CSV), then comma.
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0]
+  if (firstLine.includes('\t')) return '\t'
+  if (firstLine.includes(';')) return ';'
+  return ','
+}
+
+/** Splits delimited text into rows of trimmed cells; quoted cells may contain delimiters and line breaks. */
+export function parseTable(text: string): string[][] {
+  const delimiter = detectDelimiter(text)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true
+      cell = ''
+    } else if (ch === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  row.push(cell.trim())
+  rows.push(row)
+
+  return rows.filter(r => r.some(c => c !== ''))
+}
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+export function looksLikeHeader(row: string[]): boolean {
+  return row.every(cell => cell === '' || isNaN(parseLength(cell, 'mm')))
+}
+
+export function guessMapping(firstRow: string[], hasHeader: boolean): ColumnMapping {
+  const mapping: ColumnMapping = { project: -1, material: -1, length: -1, unit: -1, count: -1 }
+  if (!hasHeader) {
+    DEFAULT_ORDER.forEach((col, i) => {
+      if (i < firstRow.length) mapping[col] = i
+    })
+    return mapping
+  }
+
+  const used = new Set<number>()
+  for (const col of Object.keys(HEADER_NAMES) as DemandColumn[]) {
+    const index = firstRow.findIndex((cell, i) => !used.has(i) && isHeaderFor(col, cell))
+    if (index >= 0) {
+      mapping[col] = index
+      used.add(index)
+    }
+  }
+  return mapping
+}
+
+// Short names ("lg", "me") must match exactly, longer ones may carry a
+// suffix like "Länge (mm)".
+function isHeaderFor(col: DemandColumn, cell: string): boolean {
+  const key = normalize(cell)
+  return HEADER_NAMES[col].some(name => key === name || (name.length >= 4 && key.startsWith(name)))
+}
+
+export function matchMaterial(name: string, materials: Material[]): Material | null {
+  const key = normalize(name)
+  return materials.find(m => normalize(m.name) === key) ?? null
+}
+
+// ── Rows ───────────────────────────────────────────────────────────
+
+export function buildImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  hasHeader: boolean,
+  materials: Material[],
+  defaults: ImportDefaults,
+): ImportRow[] {
+  const cell = (row: string[], col: DemandColumn) => (mapping[col] >= 0 ? row[mapping[col]] ?? '' : '')
+
+  return rows.slice(hasHeader ? 1 : 0).map((row, i) => {
+    const errors: string[] = []
+
+    const project = cell(row, 'project') || defaults.project.trim()
+    if (!project) errors.push(t('import.projectMissing'))
+
+    let materialName: string
+    let materialId: string | null
+    if (mapping.material >= 0) {
+      materialName = cell(row, 'material')
+      materialId = matchMaterial(materialName, materials)?.id ?? null
+      if (!materialName) errors.push(t('import.materialMissing'))
+      else if (!materialId) errors.push(t('import.materialUnknown'))
+    } else {
+      const mat = materials.find(m => m.id === defaults.materialId)
+      materialName = mat?.name ?? ''
+      materialId = mat?.id ?? null
+      if (!mat) errors.push(t('import.materialMissing'))
+    }
+
+    const unitCell = cell(row, 'unit')
+    const unit = unitCell ? parseUnit(unitCell) : defaults.unit
+    if (!unit) errors.push(t('import.unitUnknown', { unit: unitCell }))
+
+    const length = parseLength(cell(row, 'length'), unit ?? 'mm')
+    const lengthMm = unit && length > 0 ? length : NaN
+    if (!(length > 0)) errors.push(t('import.lengthInvalid'))
+
+    const countCell = cell(row, 'count')
+    const count = countCell ? parseDecimal(countCell) : 1
+    if (!Number.isInteger(count) || count < 1) errors.push(t('import.countInvalid'))
+
+    return {
+      line: i + (hasHeader ? 2 : 1),
+      project,
+      materialName,
+      materialId,
+      lengthMm,
+      count,
+      errors,
+    }
+  })
+}
+
+/** Material names in the rows that match no existing material */
+export function missingMaterials(rows: ImportRow[]): string[] {
+  const names = new Map<string, string>()
+  for (const r of rows) {
+    if (r.materialId === null && r.materialName) names.set(normalize(r.materialName), r.materialName.trim())
+  }
+  return [...names.values()]
+}
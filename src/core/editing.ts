@@ -0,0 +1,67 @@
+import type { CutPlan, Demand, Material, Pipe } from './types'
+import { formatMm } from './format'
+import { t } from './i18n'
+import { usableLength } from './materials'
+
+/** Index of the target pipe, or 'new' to cut the piece from a fresh bar */
+export type MoveTarget = number | 'new'
+
+export interface CutMove {
+  materialId: string
+  fromPipe: number
+  cut: number
+  to: MoveTarget
+}
+
+export type MoveResult = { ok: true; plan: CutPlan } | { ok: false; error: string }
+
+const EPS = 1e-6
+
+function withCuts(pipe: Pipe, cuts: Demand[], mat: Material): Pipe {
+  const cutSum = cuts.reduce((sum, c) => sum + c.lengthMm, 0)
+  const kerf = mat.kerfMm * Math.max(0, cuts.length - 1)
+  return { ...pipe, cuts, remainingMm: pipe.usableMm - cutSum - kerf, edited: true }
+}
+
+// Cheapest in waste: the shortest variant the piece fits on that still has
+// bars left.
+function freshPipe(piece: Demand, pipes: Pipe[], mat: Material): Pipe | null {
+  const stock = mat.stocks
+    .filter(s => usableLength(mat, s) + EPS >= piece.lengthMm)
+    .filter(s => pipes.filter(p => p.stockId === s.id).length < (s.available ?? Infinity))
+    .sort((a, b) => a.lengthMm - b.lengthMm)[0]
+  if (!stock) return null
+  const usable = usableLength(mat, stock)
+  return { cuts: [], remainingMm: usable, stockId: stock.id, stockLengthMm: stock.lengthMm, usableMm: usable }
+}
+
+/** Moves one cut to another pipe of the same material. Pipes left empty are dropped. */
+export function moveCut(plan: CutPlan, mat: Material, move: CutMove): MoveResult {
+  const pipes = plan[move.materialId]
+  const source = pipes?.[move.fromPipe]
+  const piece = source?.cuts[move.cut]
+  if (!source || !piece) return { ok: false, error: t('move.cutNotFound') }
+  if (move.to === move.fromPipe) return { ok: true, plan }
+  if (source.locked) return { ok: false, error: t('move.locked') }
+
+  const target = move.to === 'new' ? freshPipe(piece, pipes, mat) : pipes[move.to]
+  if (!target) {
+    return { ok: false, error: move.to === 'new' ? t('move.noStock') : t('move.pipeNotFound') }
+  }
+
+  if (target.locked) return { ok: false, error: t('move.locked') }
+
+  const moved = withCuts(target, [...target.cuts, piece], mat)
+  if (moved.remainingMm < -EPS) {
+    return { ok: false, error: t('move.tooLong', { length: formatMm(Math.ceil(-moved.remainingMm)) }) }
+  }
+
+  const rest = withCuts(source, source.cuts.filter((_, i) => i !== move.cut), mat)
+  const next = pipes.map((p, i) => (i === move.fromPipe ? rest : i === move.to ? moved : p))
+  if (move.to === 'new') next.push(moved)
+
+  return {
+    ok: true,
+    plan: { ...plan, [move.materialId]: next.filter(p => p.cuts.length > 0) },
+  }
+}
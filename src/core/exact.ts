@@ -0,0 +1,352 @@
+import type { Demand, Material, Objective, Pipe } from './types'
+import { stockCost, stockLimits, usableLength } from './materials'
+import { bestFitDecreasing } from './heuristic'
+import { solveKnapsack } from './knapsack'
+
+// Pattern-based solver (Gilmore–Gomory). The LP relaxation is solved by
+// column generation with a bounded-knapsack pricing step per stock variant;
+// integer plans are obtained by diving (fix rounded columns, re-solve the
+// residual). Generated columns are kept in a pool that is priced before the
+// knapsack is called.
+//
+// Kerf is folded into the model: every piece weighs `length + kerf` and the
+// bar capacity is `usable + kerf`, since the last piece needs no cut after it.
+
+const EPS = 1e-9
+// Column generation needs more iterations the more distinct lengths there are
+const MIN_COLUMN_ITERATIONS = 1000
+const COLUMN_ITERATIONS_PER_LENGTH = 50
+const MAX_DIVES = 500
+const TIME_LIMIT_MS = 10_000
+
+export interface ExactSolution {
+  pipes: Pipe[]
+  unplaced: Demand[]
+  /** Proven lower bound on the summed stock cost (see `stockCost`) */
+  costBound: number
+}
+
+interface Packing {
+  pipes: Pipe[]
+  unplaced: Demand[]
+}
+
+interface StockOption {
+  capacity: number
+  cost: number
+}
+
+interface Column {
+  pattern: number[]
+  /** Index into the stock options */
+  stock: number
+}
+
+interface BasisColumn extends Column {
+  value: number
+}
+
+interface MasterSolution {
+  columns: BasisColumn[]
+  lowerBound: number
+}
+
+export function solveExact(pieces: Demand[], mat: Material, objective: Objective): ExactSolution {
+  const deadline = Date.now() + TIME_LIMIT_MS
+  const options: StockOption[] = mat.stocks.map(s => ({
+    capacity: usableLength(mat, s) + mat.kerfMm,
+    cost: stockCost(mat, s, objective),
+  }))
+  const limits = mat.stocks.map(s => s.available ?? Infinity)
+
+  const byLength = new Map<number, Demand[]>()
+  for (const p of pieces) {
+    const list = byLength.get(p.lengthMm) ?? []
+    list.push(p)
+    byLength.set(p.lengthMm, list)
+  }
+  const groups = [...byLength.entries()].sort((a, b) => b[0] - a[0])
+  const weights = groups.map(([len]) => len + mat.kerfMm)
+  const counts = groups.map(([, list]) => list.length)
+
+  const pool: Column[] = options.flatMap((opt, k) =>
+    firstFitPatterns(weights, counts, opt.capacity).map(pattern => ({ pattern, stock: k })),
+  )
+  const root = solveResidual(weights, counts, options, limits, pool, deadline)
+
+  const chosen: Column[] = []
+  const residual = [...counts]
+  let lp = root
+
+  for (let dive = 0; dive < MAX_DIVES && lp.columns.length > 0 && Date.now() < deadline; dive++) {
+    // Round to nearest rather than down so one dive fixes several columns.
+    let fixedAny = false
+    for (const col of [...lp.columns].sort((a, b) => b.value - a.value)) {
+      const times = Math.min(Math.round(col.value), maxRepeats(col.pattern, residual), limits[col.stock])
+      for (let t = 0; t < times; t++) take(col)
+      if (times > 0) fixedAny = true
+    }
+
+    if (!fixedAny) {
+      const candidates = lp.columns
+        .filter(c => c.value > EPS && limits[c.stock] > 0 && maxRepeats(c.pattern, residual) > 0)
+        .sort((a, b) => b.value - a.value)
+      if (candidates.length === 0) break
+      take(candidates[0])
+    }
+
+    if (!residual.some(r => r > 0)) break
+    lp = solveResidual(weights, residual, options, limits, pool, deadline)
+  }
+
+  const pools = groups.map(([, list]) => [...list])
+  const pipes = chosen.map(({ pattern, stock: k }) => {
+    const stock = mat.stocks[k]
+    const usable = usableLength(mat, stock)
+    const cuts: Demand[] = []
+    pattern.forEach((n, i) => {
+      for (let c = 0; c < n; c++) cuts.push(pools[i].pop()!)
+    })
+    const cutSum = cuts.reduce((sum, c) => sum + c.lengthMm, 0)
+    const pipe: Pipe = {
+      cuts,
+      remainingMm: usable - cutSum - mat.kerfMm * (cuts.length - 1),
+      stockId: stock.id,
+      stockLengthMm: stock.lengthMm,
+      usableMm: usable,
+    }
+    return pipe
+  })
+
+  // Whatever diving left over (time limit, exhausted stock) goes to the heuristic.
+  const rest = bestFitDecreasing(
+    pools.flat(),
+    mat,
+    objective,
+    new Map(mat.stocks.map((s, k) => [s.id, limits[k]])),
+  )
+
+  const costBound = Math.max(root.lowerBound, continuousCostBound(weights, counts, options))
+  const exact = { pipes: [...pipes, ...rest.pipes], unplaced: rest.unplaced }
+  // Diving can end worse than the first-fit patterns the pool was seeded
+  // with; never hand back more than the plain heuristic would use.
+  const heuristic = bestFitDecreasing(pieces, mat, objective, stockLimits(mat))
+  return { ...(worseThan(exact, heuristic) ? heuristic : exact), costBound }
+
+  function worseThan(a: Packing, b: Packing): boolean {
+    if (a.unplaced.length !== b.unplaced.length) return a.unplaced.length > b.unplaced.length
+    const cost = (p: Packing) => p.pipes.reduce((sum, pipe) => {
+      const k = mat.stocks.findIndex(s => s.id === pipe.stockId)
+      return sum + (k >= 0 ? options[k].cost : 0)
+    }, 0)
+    const costA = cost(a)
+    const costB = cost(b)
+    if (Math.abs(costA - costB) > 1e-9) return costA > costB
+    return a.pipes.length > b.pipes.length
+  }
+
+  function take(col: Column) {
+    chosen.push(col)
+    limits[col.stock]--
+    col.pattern.forEach((n, i) => { residual[i] -= n })
+  }
+}
+
+// Every piece that fits some bar, at the cheapest cost per unit of capacity.
+// The LP bound can never be lower, but Farley's bound from a column
+// generation cut short can.
+function continuousCostBound(weights: number[], counts: number[], options: StockOption[]): number {
+  let total = 0
+  weights.forEach((w, i) => {
+    const rates = options.filter(o => o.capacity + EPS >= w).map(o => o.cost / o.capacity)
+    if (rates.length > 0) total += w * counts[i] * Math.min(...rates)
+  })
+  return total
+}
+
+// Items are sorted by decreasing length, so this is first-fit decreasing.
+// Items longer than the capacity are left out.
+function firstFitPatterns(weights: number[], counts: number[], capacity: number): number[][] {
+  const open: { pattern: number[]; free: number }[] = []
+  counts.forEach((count, i) => {
+    if (weights[i] > capacity + EPS) return
+    for (let n = 0; n < count; n++) {
+      let bin = open.find(b => b.free + EPS >= weights[i])
+      if (!bin) {
+        bin = { pattern: new Array(weights.length).fill(0), free: capacity }
+        open.push(bin)
+      }
+      bin.pattern[i]++
+      bin.free -= weights[i]
+    }
+  })
+  return open.map(b => b.pattern)
+}
+
+function maxRepeats(pattern: number[], residual: number[]): number {
+  let times = Infinity
+  pattern.forEach((n, i) => {
+    if (n > 0) times = Math.min(times, Math.floor(residual[i] / n))
+  })
+  return times === Infinity ? 0 : times
+}
+
+// Runs the master LP on the items that still have demand and a bar left to go
+// on, mapping the resulting columns back to the full item index space. Pool
+// columns that no longer fit are left out; new ones are added to the pool.
+function solveResidual(
+  weights: number[],
+  demand: number[],
+  options: StockOption[],
+  limits: number[],
+  pool: Column[],
+  deadline: number,
+): MasterSolution {
+  const allowed = options.map((_, k) => k).filter(k => limits[k] > 0)
+  const active = demand
+    .map((d, i) => (d > 0 && allowed.some(k => options[k].capacity + EPS >= weights[i]) ? i : -1))
+    .filter(i => i >= 0)
+  if (active.length === 0) return { columns: [], lowerBound: 0 }
+
+  const subPool = pool
+    .filter(col => limits[col.stock] > 0 && col.pattern.every((n, i) => n <= demand[i]))
+    .map(col => ({ pattern: active.map(i => col.pattern[i]), stock: col.stock }))
+  const known = subPool.length
+
+  const sub = solveMaster(
+    active.map(i => weights[i]),
+    active.map(i => demand[i]),
+    options,
+    allowed,
+    subPool,
+    deadline,
+  )
+
+  const expand = (pattern: number[]) => {
+    const full = new Array(weights.length).fill(0)
+    active.forEach((i, k) => { full[i] = pattern[k] })
+    return full
+  }
+  for (const col of subPool.slice(known)) {
+    pool.push({ pattern: expand(col.pattern), stock: col.stock })
+  }
+
+  return {
+    lowerBound: sub.lowerBound,
+    columns: sub.columns.map(col => ({ ...col, pattern: expand(col.pattern) })),
+  }
+}
+
+// Revised simplex on  min Σ cost·x  s.t.  A·x = d, x ≥ 0  with an explicit
+// basis inverse. The lower bound is Farley's: objective / max cost-relative
+// reduced profit, which stays valid even if the iteration or time limit stops
+// us before optimality.
+function solveMaster(
+  weights: number[],
+  demand: number[],
+  options: StockOption[],
+  allowed: number[],
+  pool: Column[],
+  deadline: number,
+): MasterSolution {
+  const m = weights.length
+  const basis: Column[] = []
+  const binv: number[][] = []
+  const x: number[] = []
+
+  // Homogeneous patterns on the longest bar give a diagonal, always-feasible
+  // starting basis.
+  for (let i = 0; i < m; i++) {
+    let stock = -1
+    for (const k of allowed) {
+      if (options[k].capacity + EPS < weights[i]) continue
+      if (stock < 0 || options[k].capacity > options[stock].capacity) stock = k
+    }
+    const a = Math.min(demand[i], Math.floor((options[stock].capacity + EPS) / weights[i]))
+    const pattern = new Array(m).fill(0)
+    pattern[i] = a
+    basis.push({ pattern, stock })
+    const row = new Array(m).fill(0)
+    row[i] = 1 / a
+    binv.push(row)
+    x.push(demand[i] / a)
+  }
+
+  let lowerBound = 0
+  const maxIterations = MIN_COLUMN_ITERATIONS + COLUMN_ITERATIONS_PER_LENGTH * m
+
+  for (let iter = 0; iter < maxIterations && Date.now() < deadline; iter++) {
+    const duals = new Array(m).fill(0)
+    for (let i = 0; i < m; i++) {
+      const cost = options[basis[i].stock].cost
+      for (let j = 0; j < m; j++) duals[j] += cost * binv[i][j]
+    }
+
+    let entering = bestPoolColumn(pool, duals, options)
+    if (!entering) {
+      const objective = basis.reduce((sum, col, i) => sum + options[col.stock].cost * x[i], 0)
+      let bestRatio = 0
+      let maxRatio = 0
+      for (const k of allowed) {
+        const { capacity, cost } = options[k]
+        const pricing = solveKnapsack(weights, duals, demand, capacity)
+        maxRatio = Math.max(maxRatio, pricing.upperBound / cost)
+        if (pricing.value / cost > bestRatio) {
+          bestRatio = pricing.value / cost
+          entering = { pattern: pricing.pattern, stock: k }
+        }
+      }
+      lowerBound = Math.max(lowerBound, objective / Math.max(maxRatio, 1))
+      if (!entering || bestRatio <= 1 + 1e-9) break
+      pool.push(entering)
+    }
+
+    const u = new Array(m).fill(0)
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < m; j++) u[i] += binv[i][j] * entering.pattern[j]
+    }
+
+    let leave = -1
+    let step = Infinity
+    for (let i = 0; i < m; i++) {
+      if (u[i] > 1e-9) {
+        const ratio = x[i] / u[i]
+        if (ratio < step - 1e-12) {
+          step = ratio
+          leave = i
+        }
+      }
+    }
+    if (leave < 0) break
+
+    const pivot = u[leave]
+    for (let j = 0; j < m; j++) binv[leave][j] /= pivot
+    for (let i = 0; i < m; i++) {
+      if (i === leave || u[i] === 0) continue
+      for (let j = 0; j < m; j++) binv[i][j] -= u[i] * binv[leave][j]
+      x[i] = Math.max(0, x[i] - step * u[i])
+    }
+    x[leave] = step
+    basis[leave] = entering
+  }
+
+  return {
+    columns: basis.map((col, i) => ({ ...col, value: x[i] })),
+    lowerBound,
+  }
+}
+
+function bestPoolColumn(pool: Column[], duals: number[], options: StockOption[]): Column | null {
+  let best: Column | null = null
+  let bestRatio = 1 + 1e-9
+  for (const col of pool) {
+    let value = 0
+    for (let j = 0; j < col.pattern.length; j++) value += col.pattern[j] * duals[j]
+    const ratio = value / options[col.stock].cost
+    if (ratio > bestRatio) {
+      best = col
+      bestRatio = ratio
+    }
+  }
+  return best
+}
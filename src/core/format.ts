@@ -0,0 +1,81 @@
+import { DEFAULT_DISPLAY_UNITS, UNIT_FACTORS, formatImperial, parseLength } from './units'
+import type { DisplayUnits, LengthUnit } from './units'
+import type { Demand } from './types'
+import { getLocale, t } from './i18n'
+
+// Unit system for every displayed length; set once from the user's choice
+let display: DisplayUnits = DEFAULT_DISPLAY_UNITS
+
+export function setDisplayUnits(units: DisplayUnits) {
+  display = units
+}
+
+export function getDisplayUnits(): DisplayUnits {
+  return display
+}
+
+// Building a formatter is far slower than using one
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function numberFormat(options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${getLocale()}|${JSON.stringify(options)}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(getLocale(), options)
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+/** Decimal separator of the current language, no thousands grouping */
+export function formatNumber(value: number, maxDigits = 0, minDigits = 0): string {
+  return numberFormat({ maximumFractionDigits: maxDigits, minimumFractionDigits: minDigits, useGrouping: false })
+    .format(value)
+}
+
+/** `value` in percent, e.g. 92.5 → "92,5 %" */
+export function formatPercent(value: number, digits = 1): string {
+  return numberFormat({ style: 'percent', minimumFractionDigits: digits, maximumFractionDigits: digits })
+    .format(value / 100)
+}
+
+export function formatMm(mm: number, units: DisplayUnits = display): string {
+  if (units.system === 'imperial') return formatImperial(mm, units.fraction)
+  if (Math.abs(mm) >= 1000) return `${formatNumber(mm / 1000, 3)} m`
+  return `${formatNumber(mm, 1)} mm`
+}
+
+/** A length as the user would type it: plain millimetres or ft/in */
+export function editableLength(mm: number, units: DisplayUnits = display): string {
+  return units.system === 'imperial' ? formatImperial(mm, units.fraction) : formatNumber(mm, 4)
+}
+
+/** Unit of plain numbers the user types: mm or inches */
+export function entryUnit(units: DisplayUnits = display): LengthUnit {
+  return units.system === 'imperial' ? 'in' : 'mm'
+}
+
+/** Reads a typed length; plain numbers count as mm or inches */
+export function parseEnteredLength(text: string, units: DisplayUnits = display): number {
+  return parseLength(text, entryUnit(units))
+}
+
+/** Planned length of a cut, with the requested one if it is cut shorter */
+export function formatCutLength(cut: Demand, units: DisplayUnits = display): string {
+  if (cut.requestedLengthMm === undefined) return formatMm(cut.lengthMm, units)
+  return t('common.shortened', { length: formatMm(cut.lengthMm, units), requested: formatMm(cut.requestedLengthMm, units) })
+}
+
+export function lengthUnitLabel(units: DisplayUnits = display): string {
+  return units.system === 'imperial' ? 'ft/in' : 'mm'
+}
+
+/** Summed lengths such as scrap or offcut totals: metres or feet */
+export function formatTotalLength(mm: number, units: DisplayUnits = display): string {
+  if (units.system === 'imperial') return `${formatNumber(mm / UNIT_FACTORS.ft, 1, 1)} ft`
+  return `${formatNumber(mm / 1000, 2, 2)} m`
+}
+
+export function formatPrice(value: number): string {
+  return numberFormat({ style: 'currency', currency: 'EUR' }).format(value)
+}
@@ -0,0 +1,106 @@
+import type { Demand, Material, Objective, Pipe } from './types'
+import { stockCost, usableLength } from './materials'
+
+export interface Packing {
+  pipes: Pipe[]
+  /** Pieces that fit a stock variant, but none of those bars were left */
+  unplaced: Demand[]
+}
+
+// Best-fit decreasing into the longest bar still available; afterwards every
+// pipe moves to the cheapest variant its cuts fit on. `limits` (bars left per
+// stock id) is consumed.
+export function bestFitDecreasing(
+  pieces: Demand[],
+  mat: Material,
+  objective: Objective,
+  limits: Map<string, number>,
+): Packing {
+  return fitDecreasing(pieces, mat, objective, limits, false)
+}
+
+/** Like `bestFitDecreasing`, but each piece goes onto the first pipe it fits on */
+export function firstFitDecreasing(
+  pieces: Demand[],
+  mat: Material,
+  objective: Objective,
+  limits: Map<string, number>,
+): Packing {
+  return fitDecreasing(pieces, mat, objective, limits, true)
+}
+
+function fitDecreasing(
+  pieces: Demand[],
+  mat: Material,
+  objective: Objective,
+  limits: Map<string, number>,
+  firstFit: boolean,
+): Packing {
+  const stocks = [...mat.stocks].sort((a, b) => b.lengthMm - a.lengthMm)
+  const sorted = [...pieces].sort((a, b) => b.lengthMm - a.lengthMm)
+  const pipes: Pipe[] = []
+  const unplaced: Demand[] = []
+
+  for (const piece of sorted) {
+    const needed = piece.lengthMm + mat.kerfMm
+    let bestIdx = -1
+    let bestRemaining = Infinity
+
+    for (let i = 0; i < pipes.length; i++) {
+      const pipe = pipes[i]
+      if (pipe.remainingMm >= needed && pipe.remainingMm < bestRemaining) {
+        bestIdx = i
+        bestRemaining = pipe.remainingMm
+        if (firstFit) break
+      }
+    }
+
+    if (bestIdx >= 0) {
+      pipes[bestIdx].cuts.push(piece)
+      pipes[bestIdx].remainingMm -= needed
+      continue
+    }
+
+    const stock = stocks.find(s => (limits.get(s.id) ?? 0) > 0 && usableLength(mat, s) >= piece.lengthMm)
+    if (!stock) {
+      unplaced.push(piece)
+      continue
+    }
+    limits.set(stock.id, limits.get(stock.id)! - 1)
+    const usable = usableLength(mat, stock)
+    pipes.push({
+      cuts: [piece],
+      remainingMm: usable - needed,
+      stockId: stock.id,
+      stockLengthMm: stock.lengthMm,
+      usableMm: usable,
+    })
+  }
+
+  // Remove trailing kerf from last cut on each pipe (no cut after last piece)
+  for (const pipe of pipes) {
+    if (pipe.cuts.length > 0) {
+      pipe.remainingMm += mat.kerfMm
+    }
+  }
+
+  // Downsize, least filled pipes first so they get the short bars
+  const byNeed = [...pipes].sort((a, b) => (a.usableMm - a.remainingMm) - (b.usableMm - b.remainingMm))
+  for (const pipe of byNeed) {
+    const need = pipe.usableMm - pipe.remainingMm
+    const current = pipe.stockId!
+    limits.set(current, limits.get(current)! + 1)
+    let best = mat.stocks.find(s => s.id === current)!
+    for (const s of stocks) {
+      if ((limits.get(s.id) ?? 0) <= 0 || usableLength(mat, s) < need) continue
+      if (stockCost(mat, s, objective) < stockCost(mat, best, objective)) best = s
+    }
+    limits.set(best.id, limits.get(best.id)! - 1)
+    pipe.stockId = best.id
+    pipe.stockLengthMm = best.lengthMm
+    pipe.usableMm = usableLength(mat, best)
+    pipe.remainingMm = pipe.usableMm - need
+  }
+
+  return { pipes, unplaced }
+}
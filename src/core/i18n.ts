@@ -0,0 +1,43 @@
+import { de } from './locales/de'
+import { en } from './locales/en'
+
+// Translated texts. Like the display units, the language is module state: the
+// UI sets it before rendering, and everything that builds text reads it.
+
+export type Locale = 'de' | 'en'
+
+export const LOCALES: Locale[] = ['de', 'en']
+
+/** Each language in its own words, for the language switcher */
+export const LOCALE_NAMES: Record<Locale, string> = { de: 'Deutsch', en: 'English' }
+
+export type Params = Record<string, string | number>
+
+/** Plain text with {name} placeholders, or a function for plurals */
+export type Message = string | ((params: Params) => string)
+
+export type MessageKey = keyof typeof de
+
+export type Messages = Record<MessageKey, Message>
+
+const CATALOGS: Record<Locale, Messages> = { de, en }
+
+let locale: Locale = 'de'
+
+export function setLocale(next: Locale) {
+  locale = next
+}
+
+export function getLocale(): Locale {
+  return locale
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+export function t(key: MessageKey, params: Params = {}): string {
+  const message = CATALOGS[locale][key]
+  if (typeof message === 'function') return message(params)
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+}
@@ -0,0 +1,46 @@
+// Public surface of the planning core. Nothing in src/core depends on React or
+// the DOM, so the same code runs in the browser, the worker and the CLI.
+
+export type * from './types'
+export { optimize } from './optimize'
+export { aggregateDemands } from './aggregate'
+export type { AggregatedDemand } from './aggregate'
+export { barPrice, maxUsableLength, usableLength } from './materials'
+export { formatCutLength, formatMm, formatNumber, formatPercent, formatPrice, formatTotalLength, setDisplayUnits } from './format'
+export { LOCALES, getLocale, isLocale, setLocale, t } from './i18n'
+export type { Locale, MessageKey } from './i18n'
+export { DEFAULT_DISPLAY_UNITS, formatImperial, parseDecimal, parseLength } from './units'
+export type { DisplayUnits, LengthUnit, UnitSystem } from './units'
+export { planCosts } from './costs'
+export type { CostBreakdown } from './costs'
+export { cutPatterns, purchaseList, purchaseTotal } from './summary'
+export type { PatternLine, PurchaseLine } from './summary'
+export { planWeights } from './summary'
+export type { WeightLine } from './summary'
+export {
+  PIPE_MATERIAL_TYPES,
+  STANDARD_CATALOG,
+  materialFromCatalog,
+  parseCatalogFile,
+  serializeCatalog,
+  weightPerMeter,
+} from './catalog'
+export type { CatalogEntry } from './catalog'
+export { compareUrgency, orderShortfall } from './shortage'
+export { planCutList } from './cutList'
+export type { CutListCut, CutListMaterial, CutListPipe } from './cutList'
+export { offcutLength } from './remnants'
+export {
+  JOB_FILE_FORMAT,
+  JOB_FILE_VERSION,
+  createJobFile,
+  parseJobFile,
+  serializeJobFile,
+} from './jobFile'
+export type { JobFile, JobFileResult } from './jobFile'
+export {
+  DEFAULT_END_WASTE_MM,
+  DEFAULT_KERF_MM,
+  DEFAULT_MIN_REMNANT_MM,
+  DEFAULT_START_WASTE_MM,
+} from './constants'
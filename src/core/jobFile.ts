@@ -0,0 +1,430 @@
+import type { CutPlan, Demand, JobData, Material, PackingRule, Pipe, ProjectMixing } from './types'
+import { pipePropertyErrors } from './catalog'
+import { t } from './i18n'
+import type { MessageKey } from './i18n'
+
+// Versioned exchange format for a whole job. Older files are lifted to the
+// current version by running them through MIGRATIONS before validation.
+
+export const JOB_FILE_FORMAT = 'pipe-optimizer-job'
+export const JOB_FILE_VERSION = 1
+
+export interface JobFile {
+  format: typeof JOB_FILE_FORMAT
+  version: number
+  name: string
+  exportedAt: string
+  job: JobData
+  plan?: CutPlan
+}
+
+export type JobFileResult =
+  | { ok: true; file: JobFile }
+  | { ok: false; errors: string[] }
+
+type Obj = Record<string, unknown>
+
+/** MIGRATIONS[n] turns a version-n file into a version-(n+1) file */
+const MIGRATIONS: Record<number, (file: Obj) => Obj> = {}
+
+const PROJECT_MIXING: ProjectMixing[] = ['free', 'separate', 'groups', 'minimize']
+const PACKING_RULES: PackingRule[] = ['best-fit', 'first-fit', 'patterns']
+
+export function createJobFile(name: string, job: JobData, plan?: CutPlan): JobFile {
+  return {
+    format: JOB_FILE_FORMAT,
+    version: JOB_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    job,
+    ...(plan ? { plan } : {}),
+  }
+}
+
+export function serializeJobFile(file: JobFile): string {
+  return JSON.stringify(file, null, 2)
+}
+
+export function parseJobFile(text: string): JobFileResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: [t('file.invalidJson')] }
+  }
+  if (!isObject(raw) || raw.format !== JOB_FILE_FORMAT) {
+    return { ok: false, errors: [t('file.notJob')] }
+  }
+
+  let file = raw
+  let version = file.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ok: false, errors: [t('file.unknownVersion')] }
+  }
+  if (version > JOB_FILE_VERSION) {
+    return { ok: false, errors: [t('file.versionTooNew', { version, supported: JOB_FILE_VERSION })] }
+  }
+  while (version < JOB_FILE_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) return { ok: false, errors: [t('file.noMigration', { version })] }
+    file = { ...migrate(file), version: ++version }
+  }
+
+  const errors: string[] = []
+  const job = file.job
+  if (!isObject(job)) return { ok: false, errors: [t('file.jobMissing')] }
+
+  const materials = checkMaterials(job.materials, errors)
+  const demands = checkDemands(job.demands, materials, errors)
+  checkSettings(job.settings, errors)
+  checkNumber(job, 'minRemnantMm', t('file.settings'), errors, { min: 0 })
+  if (job.locked !== undefined) checkPlan(job.locked, 'locked', materials, demands, errors)
+  if (file.plan !== undefined) checkPlan(file.plan, 'plan', materials, demands, errors)
+
+  if (errors.length > 0) return { ok: false, errors }
+  return {
+    ok: true,
+    file: {
+      format: JOB_FILE_FORMAT,
+      version,
+      name: typeof file.name === 'string' ? file.name : '',
+      exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+      job: job as unknown as JobData,
+      ...(file.plan !== undefined ? { plan: resolvePlan(file.plan as CutPlan, demands, materials) } : {}),
+    },
+  }
+}
+
+// ── Validation ─────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function label(kind: MessageKey, index: number, entry: unknown): string {
+  const id = isObject(entry) && typeof entry.id === 'string' ? ` (id ${entry.id})` : ''
+  return `${t(kind, { number: index + 1 })}${id}`
+}
+
+function quoteAll(values: string[]): string {
+  return values.map(text => t('common.quoted', { text })).join(', ')
+}
+
+function checkString(obj: Obj, key: string, where: string, errors: string[]): boolean {
+  if (typeof obj[key] === 'string' && (key !== 'id' || obj[key] !== '')) return true
+  errors.push(`${where}: ${t('file.notText', { key })}`)
+  return false
+}
+
+function checkNumber(
+  obj: Obj,
+  key: string,
+  where: string,
+  errors: string[],
+  { min, positive = false, integer = false, optional = false }: {
+    min?: number
+    positive?: boolean
+    integer?: boolean
+    optional?: boolean
+  },
+): boolean {
+  const value = obj[key]
+  if (value === undefined && optional) return true
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${where}: ${t('file.notNumber', { key })}`)
+  } else if (positive && value <= 0) {
+    errors.push(`${where}: ${t('file.notPositive', { key, value })}`)
+  } else if (min !== undefined && value < min) {
+    errors.push(`${where}: ${t('file.belowMin', { key, min, value })}`)
+  } else if (integer && !Number.isInteger(value)) {
+    errors.push(`${where}: ${t('file.notInteger', { key, value })}`)
+  } else {
+    return true
+  }
+  return false
+}
+
+function checkUnique(ids: Set<string>, obj: Obj, where: string, errors: string[]) {
+  if (typeof obj.id !== 'string') return
+  if (ids.has(obj.id)) errors.push(`${where}: ${t('file.duplicateId', { id: obj.id })}`)
+  ids.add(obj.id)
+}
+
+// Returns the materials that are usable as references, even if some of
+// their fields are broken, so demand errors are not reported twice.
+function checkMaterials(value: unknown, errors: string[]): Map<string, Material> {
+  const materials = new Map<string, Material>()
+  if (!Array.isArray(value)) {
+    errors.push(t('file.notList', { key: 'materials' }))
+    return materials
+  }
+
+  const ids = new Set<string>()
+  value.forEach((entry, i) => {
+    const where = label('file.material', i, entry)
+    if (!isObject(entry)) {
+      errors.push(`${where}: ${t('file.notObject')}`)
+      return
+    }
+    checkString(entry, 'id', where, errors)
+    checkUnique(ids, entry, where, errors)
+    checkString(entry, 'name', where, errors)
+    checkNumber(entry, 'kerfMm', where, errors, { min: 0 })
+    checkNumber(entry, 'startWasteMm', where, errors, { min: 0 })
+    checkNumber(entry, 'endWasteMm', where, errors, { min: 0 })
+    checkNumber(entry, 'pricePerMeter', where, errors, { min: 0, optional: true })
+    checkNumber(entry, 'cutCost', where, errors, { min: 0, optional: true })
+    if (entry.pipe !== undefined) errors.push(...pipePropertyErrors(entry.pipe, where))
+
+    if (!Array.isArray(entry.stocks) || entry.stocks.length === 0) {
+      errors.push(`${where}: ${t('file.noStocks')}`)
+    } else {
+      entry.stocks.forEach((stock: unknown, k) => {
+        const at = `${where}, ${label('file.stock', k, stock)}`
+        if (!isObject(stock)) {
+          errors.push(`${at}: ${t('file.notObject')}`)
+          return
+        }
+        checkString(stock, 'id', at, errors)
+        checkUnique(ids, stock, at, errors)
+        checkNumber(stock, 'lengthMm', at, errors, { positive: true })
+        checkNumber(stock, 'price', at, errors, { min: 0, optional: true })
+        checkNumber(stock, 'available', at, errors, { min: 0, integer: true, optional: true })
+      })
+    }
+
+    if (!Array.isArray(entry.remnants)) {
+      errors.push(`${where}: ${t('file.notList', { key: 'remnants' })}`)
+    } else {
+      entry.remnants.forEach((remnant: unknown, k) => {
+        const at = `${where}, ${label('file.remnant', k, remnant)}`
+        if (!isObject(remnant)) {
+          errors.push(`${at}: ${t('file.notObject')}`)
+          return
+        }
+        checkString(remnant, 'id', at, errors)
+        checkUnique(ids, remnant, at, errors)
+        checkNumber(remnant, 'lengthMm', at, errors, { positive: true })
+      })
+    }
+
+    if (entry.splitting !== undefined) {
+      const at = `${where}, splitting`
+      if (!isObject(entry.splitting)) {
+        errors.push(`${at}: ${t('file.notObject')}`)
+      } else {
+        checkNumber(entry.splitting, 'jointAllowanceMm', at, errors, { min: 0 })
+        checkNumber(entry.splitting, 'minSegmentMm', at, errors, { min: 0 })
+      }
+    }
+
+    if (typeof entry.id === 'string') materials.set(entry.id, entry as unknown as Material)
+  })
+  return materials
+}
+
+function checkDemands(value: unknown, materials: Map<string, Material>, errors: string[]): Map<string, Demand> {
+  const demands = new Map<string, Demand>()
+  if (!Array.isArray(value)) {
+    errors.push(t('file.notList', { key: 'demands' }))
+    return demands
+  }
+
+  value.forEach((entry, i) => {
+    const where = label('file.demand', i, entry)
+    if (!isObject(entry)) {
+      errors.push(`${where}: ${t('file.notObject')}`)
+      return
+    }
+    if (checkString(entry, 'id', where, errors) && demands.has(entry.id as string)) {
+      errors.push(`${where}: ${t('file.duplicateId', { id: entry.id as string })}`)
+    }
+    checkString(entry, 'project', where, errors)
+    if (
+      checkNumber(entry, 'lengthMm', where, errors, { positive: true })
+      && checkNumber(entry, 'minLengthMm', where, errors, { positive: true, optional: true })
+      && (entry.minLengthMm as number) > (entry.lengthMm as number)
+    ) {
+      errors.push(`${where}: ${t('file.minAboveLength')}`)
+    }
+    if (checkString(entry, 'materialId', where, errors) && !materials.has(entry.materialId as string)) {
+      errors.push(`${where}: ${t('file.unknownMaterial', { id: entry.materialId as string })}`)
+    }
+    if (typeof entry.id === 'string') demands.set(entry.id, entry as unknown as Demand)
+  })
+  return demands
+}
+
+function checkSettings(value: unknown, errors: string[]) {
+  if (!isObject(value)) {
+    errors.push(t('file.settingsMissing'))
+    return
+  }
+  const where = t('file.settings')
+  if (value.mode !== 'fast' && value.mode !== 'exact') {
+    errors.push(`${where}: ${t('file.oneOf', { key: 'mode', values: quoteAll(['fast', 'exact']) })}`)
+  }
+  if (value.objective !== 'waste' && value.objective !== 'cost') {
+    errors.push(`${where}: ${t('file.oneOf', { key: 'objective', values: quoteAll(['waste', 'cost']) })}`)
+  }
+  if (value.packing !== undefined && !PACKING_RULES.includes(value.packing as PackingRule)) {
+    errors.push(`${where}: ${t('file.oneOf', { key: 'packing', values: quoteAll(PACKING_RULES) })}`)
+  }
+  if (value.fillLocked !== undefined && typeof value.fillLocked !== 'boolean') {
+    errors.push(`${where}: ${t('file.notBoolean', { key: 'fillLocked' })}`)
+  }
+  if (value.projectMixing !== undefined && !PROJECT_MIXING.includes(value.projectMixing as ProjectMixing)) {
+    errors.push(`${where}: ${t('file.oneOf', { key: 'projectMixing', values: quoteAll(PROJECT_MIXING) })}`)
+  }
+  if (value.projectGroups !== undefined && (
+    !isObject(value.projectGroups) || !Object.values(value.projectGroups).every(g => typeof g === 'string')
+  )) {
+    errors.push(`${where}: ${t('file.projectGroups')}`)
+  }
+  if (value.projectPriorities !== undefined && (
+    !isObject(value.projectPriorities) || !Object.values(value.projectPriorities).every(isProjectPriority)
+  )) {
+    errors.push(`${where}: ${t('file.projectPriorities')}`)
+  }
+}
+
+function isProjectPriority(value: unknown): boolean {
+  if (!isObject(value)) return false
+  const { priority, dueDate } = value
+  return (priority === undefined || (Number.isInteger(priority) && (priority as number) >= 1))
+    && (dueDate === undefined || (typeof dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(dueDate)))
+}
+
+// Locked pipes are already cut, so their pieces may since have been removed
+// from the demand list; they carry their own copy of each piece.
+function checkPlan(
+  value: unknown,
+  kind: 'plan' | 'locked',
+  materials: Map<string, Material>,
+  demands: Map<string, Demand>,
+  errors: string[],
+) {
+  if (!isObject(value)) {
+    errors.push(t('file.keyNotObject', { key: kind }))
+    return
+  }
+
+  const seen = new Set<string>()
+  const usedRemnants = new Set<string>()
+  for (const [materialId, pipes] of Object.entries(value)) {
+    const mat = materials.get(materialId)
+    const where = t(kind === 'plan' ? 'file.planFor' : 'file.lockedFor', { id: materialId })
+    if (!materials.has(materialId)) errors.push(`${where}: ${t('file.unknownMaterial', { id: materialId })}`)
+    if (!Array.isArray(pipes)) {
+      errors.push(`${where}: ${t('file.notPipeList')}`)
+      continue
+    }
+    pipes.forEach((pipe: unknown, i) => {
+      const at = `${where}, ${t('file.pipe', { number: i + 1 })}`
+      if (!isObject(pipe)) {
+        errors.push(`${at}: ${t('file.notObject')}`)
+        return
+      }
+      const hasLength = checkNumber(pipe, 'stockLengthMm', at, errors, { positive: true })
+      checkNumber(pipe, 'usableMm', at, errors, {})
+      checkNumber(pipe, 'remainingMm', at, errors, {})
+      if (kind === 'plan' && mat && hasLength && !pipe.locked) checkSource(pipe, mat, usedRemnants, at, errors)
+      if (!Array.isArray(pipe.cuts)) {
+        errors.push(`${at}: ${t('file.notList', { key: 'cuts' })}`)
+        return
+      }
+      // Lengths as they will be cut; null once a cut is broken
+      let lengths: number[] | null = []
+      for (const cut of pipe.cuts as unknown[]) {
+        const count = errors.length
+        // Segments of a split piece refer to the demand they were cut from
+        const segment = isObject(cut) && isObject(cut.segment) ? cut.segment : null
+        const id = isObject(cut) ? cut.id : undefined
+        const demandId = segment ? segment.parentId : id
+        const demand = typeof demandId === 'string' ? demands.get(demandId) : undefined
+        if (kind === 'locked') {
+          if (!isObject(cut) || !checkString(cut, 'id', at, errors)) continue
+          checkString(cut, 'project', at, errors)
+          checkNumber(cut, 'lengthMm', at, errors, { positive: true })
+        } else if (!demand) {
+          errors.push(`${at}: ${t('file.unknownDemand', { id: String(demandId) })}`)
+        } else if (demand.materialId !== materialId) {
+          errors.push(`${at}: ${t('file.otherMaterial', { id: demandId as string })}`)
+        } else if (typeof id !== 'string' || seen.has(id)) {
+          errors.push(`${at}: ${t('file.plannedTwice', { id: String(id) })}`)
+        } else {
+          seen.add(id)
+          if (segment) checkNumber(cut as Obj, 'lengthMm', at, errors, { positive: true })
+          else if ((cut as Obj).requestedLengthMm !== undefined) checkShortened(cut as Obj, demand, at, errors)
+          const planned = segment || (cut as Obj).requestedLengthMm !== undefined
+          lengths?.push(planned ? (cut as Obj).lengthMm as number : demand.lengthMm)
+        }
+        if (errors.length > count) lengths = null
+      }
+      if (kind === 'plan' && mat && hasLength && lengths) checkFits(pipe.stockLengthMm as number, lengths, mat, at, errors)
+    })
+  }
+}
+
+// A bar must be one of the material's stock lengths, an offcut one of its
+// remnants, each remnant used once. Pipes that are already cut are exempt:
+// their remnant has left the rack.
+function checkSource(pipe: Obj, mat: Material, usedRemnants: Set<string>, at: string, errors: string[]) {
+  const length = pipe.stockLengthMm as number
+  if (pipe.remnantId !== undefined) {
+    const remnant = mat.remnants.find(r => r.id === pipe.remnantId)
+    if (!remnant || remnant.lengthMm !== length) {
+      errors.push(`${at}: ${t('file.unknownRemnant', { id: String(pipe.remnantId) })}`)
+    } else if (usedRemnants.has(remnant.id)) {
+      errors.push(`${at}: ${t('file.remnantTwice', { id: remnant.id })}`)
+    } else {
+      usedRemnants.add(remnant.id)
+    }
+  } else if (!mat.stocks.some(s => s.lengthMm === length && (pipe.stockId === undefined || s.id === pipe.stockId))) {
+    errors.push(`${at}: ${t('file.unknownStockLength', { length })}`)
+  }
+}
+
+// The cuts with the kerfs between them must fit between the start and end allowance
+function checkFits(stockLengthMm: number, lengths: number[], mat: Material, at: string, errors: string[]) {
+  const usable = stockLengthMm - mat.startWasteMm - mat.endWasteMm
+  const needed = lengths.reduce((sum, l) => sum + l, 0) + mat.kerfMm * Math.max(0, lengths.length - 1)
+  if (needed > usable + 1e-6) {
+    errors.push(`${at}: ${t('file.overflow', { needed: Math.round(needed * 10) / 10, usable: Math.round(usable * 10) / 10 })}`)
+  }
+}
+
+// A piece cut shorter than requested must stay within its tolerance
+function checkShortened(cut: Obj, demand: Demand, at: string, errors: string[]) {
+  if (!checkNumber(cut, 'lengthMm', at, errors, { positive: true })) return
+  const length = cut.lengthMm as number
+  if (length < (demand.minLengthMm ?? demand.lengthMm) || length > demand.lengthMm) {
+    errors.push(`${at}: ${t('file.outsideTolerance', { length, id: demand.id })}`)
+  }
+}
+
+// Cuts refer to the job's demands by id; use the job's copies so the plan and
+// the demand list stay in agreement. Shortened pieces keep their planned length.
+// Usable and remaining length follow from the material, not from the file.
+function resolvePlan(plan: CutPlan, demands: Map<string, Demand>, materials: Map<string, Material>): CutPlan {
+  const resolved: CutPlan = {}
+  for (const [materialId, pipes] of Object.entries(plan)) {
+    const mat = materials.get(materialId)!
+    resolved[materialId] = pipes.map((pipe): Pipe => {
+      const cuts = pipe.cuts.map(c => (c.segment
+        ? { ...demands.get(c.segment.parentId)!, id: c.id, lengthMm: c.lengthMm, segment: c.segment }
+        : c.requestedLengthMm !== undefined
+          ? { ...demands.get(c.id)!, lengthMm: c.lengthMm, requestedLengthMm: demands.get(c.id)!.lengthMm }
+          : demands.get(c.id)!))
+      const usableMm = pipe.stockLengthMm - mat.startWasteMm - mat.endWasteMm
+      const cutSum = cuts.reduce((sum, c) => sum + c.lengthMm, 0)
+      return {
+        ...pipe,
+        cuts,
+        usableMm,
+        remainingMm: usableMm - cutSum - mat.kerfMm * Math.max(0, cuts.length - 1),
+      }
+    })
+  }
+  return resolved
+}
@@ -0,0 +1,111 @@
+// Bounded knapsack: maximize Σ values·a  s.t.  Σ weights·a ≤ capacity,
+// 0 ≤ a ≤ bounds, a integer. Used for column pricing and for filling remnants.
+
+const EPS = 1e-9
+const MAX_NODES = 200_000
+const MAX_DP_CAPACITY = 100_000
+
+export interface Knapsack {
+  pattern: number[]
+  value: number
+  /** Equals `value` unless the search was cut short */
+  upperBound: number
+}
+
+export function solveKnapsack(weights: number[], values: number[], bounds: number[], capacity: number): Knapsack {
+  const integral = capacity <= MAX_DP_CAPACITY && weights.every(w => Number.isInteger(w))
+  return integral
+    ? dynamicProgram(weights, values, bounds, capacity)
+    : branchAndBound(weights, values, bounds, capacity)
+}
+
+// Bounded knapsack by depth-first branch and bound. If the node budget runs
+// out, `upperBound` falls back to the fractional (Dantzig) bound so callers can
+// still derive a valid lower bound.
+function branchAndBound(weights: number[], values: number[], bounds: number[], capacity: number): Knapsack {
+  const m = weights.length
+  const order = values
+    .map((v, i) => (v > EPS ? i : -1))
+    .filter(i => i >= 0)
+    .sort((a, b) => values[b] / weights[b] - values[a] / weights[a])
+
+  const current = new Array(m).fill(0)
+  let bestPattern = new Array(m).fill(0)
+  let best = 0
+  let nodes = 0
+
+  function fractional(k: number, cap: number): number {
+    let total = 0
+    for (; k < order.length && cap > EPS; k++) {
+      const i = order[k]
+      const n = Math.min(bounds[i], cap / weights[i])
+      total += n * values[i]
+      cap -= n * weights[i]
+    }
+    return total
+  }
+
+  function dfs(k: number, cap: number, value: number) {
+    nodes++
+    if (value > best + EPS) {
+      best = value
+      bestPattern = [...current]
+    }
+    if (k === order.length || nodes > MAX_NODES) return
+    if (value + fractional(k, cap) <= best + EPS) return
+
+    const i = order[k]
+    const maxCount = Math.min(bounds[i], Math.floor((cap + EPS) / weights[i]))
+    for (let c = maxCount; c >= 0; c--) {
+      current[i] = c
+      dfs(k + 1, cap - c * weights[i], value + c * values[i])
+    }
+    current[i] = 0
+  }
+
+  dfs(0, capacity, 0)
+
+  const upperBound = nodes > MAX_NODES ? fractional(0, capacity) : best
+  return { pattern: bestPattern, value: best, upperBound }
+}
+
+// Bounded knapsack as 0/1 knapsack over binary-split item chunks. Exact and
+// fast for the usual whole-millimetre lengths.
+function dynamicProgram(weights: number[], values: number[], bounds: number[], capacity: number): Knapsack {
+  const cap = Math.floor(capacity + EPS)
+  const chunks: { item: number; count: number }[] = []
+  values.forEach((v, i) => {
+    if (v <= EPS) return
+    let remaining = Math.min(bounds[i], Math.floor(cap / weights[i]))
+    for (let size = 1; remaining > 0; size *= 2) {
+      const count = Math.min(size, remaining)
+      chunks.push({ item: i, count })
+      remaining -= count
+    }
+  })
+
+  const dp = new Float64Array(cap + 1)
+  const taken = chunks.map(() => new Uint8Array(cap + 1))
+  chunks.forEach(({ item, count }, c) => {
+    const w = count * weights[item]
+    const v = count * values[item]
+    for (let r = cap; r >= w; r--) {
+      if (dp[r - w] + v > dp[r] + EPS) {
+        dp[r] = dp[r - w] + v
+        taken[c][r] = 1
+      }
+    }
+  })
+
+  const pattern = new Array(weights.length).fill(0)
+  let r = cap
+  for (let c = chunks.length - 1; c >= 0; c--) {
+    if (taken[c][r]) {
+      const { item, count } = chunks[c]
+      pattern[item] += count
+      r -= count * weights[item]
+    }
+  }
+
+  return { pattern, value: dp[cap], upperBound: dp[cap] }
+}
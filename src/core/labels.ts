@@ -0,0 +1,71 @@
+import type { CutPlan, Demand, Material } from './types'
+import { planCutList } from './cutList'
+
+export interface LabelSheet {
+  columns: number
+  rows: number
+  pageWidthMm: number
+  pageHeightMm: number
+  /** Page border around the label grid */
+  marginMm: number
+  /** Space between neighbouring labels */
+  gapMm: number
+}
+
+export interface LabelSheetPreset {
+  id: string
+  name: string
+  sheet: LabelSheet
+}
+
+const A4 = { pageWidthMm: 210, pageHeightMm: 297 }
+
+export const LABEL_SHEETS: LabelSheetPreset[] = [
+  { id: 'a4-3x8', name: 'A4 3×8 (70 × 37 mm)', sheet: { ...A4, columns: 3, rows: 8, marginMm: 0, gapMm: 0 } },
+  { id: 'a4-3x7', name: 'A4 3×7 (70 × 42 mm)', sheet: { ...A4, columns: 3, rows: 7, marginMm: 0, gapMm: 0 } },
+  { id: 'a4-2x8', name: 'A4 2×8 (105 × 37 mm)', sheet: { ...A4, columns: 2, rows: 8, marginMm: 0, gapMm: 0 } },
+  { id: 'a4-4x10', name: 'A4 4×10 (48 × 25 mm)', sheet: { ...A4, columns: 4, rows: 10, marginMm: 10, gapMm: 2.5 } },
+]
+
+export function labelSize(sheet: LabelSheet): { widthMm: number; heightMm: number } {
+  const { columns, rows, pageWidthMm, pageHeightMm, marginMm, gapMm } = sheet
+  return {
+    widthMm: (pageWidthMm - 2 * marginMm - (columns - 1) * gapMm) / columns,
+    heightMm: (pageHeightMm - 2 * marginMm - (rows - 1) * gapMm) / rows,
+  }
+}
+
+export interface PieceLabel {
+  demand: Demand
+  materialName: string
+  /** 1-based, numbered per material as in the result view */
+  pipeNumber: number
+  /** 1-based position of the cut on its pipe, in the order of the cut list */
+  cutNumber: number
+  cutCount: number
+}
+
+export function planLabels(plan: CutPlan, materials: Material[]): PieceLabel[] {
+  const sawn = new Map<string, number>()
+  for (const list of planCutList(plan, materials)) {
+    for (const p of list.pipes) p.cuts.forEach((c, i) => sawn.set(c.demand.id, i + 1))
+  }
+  return materials.flatMap(mat => (plan[mat.id] ?? []).flatMap((pipe, pipeIdx) =>
+    pipe.cuts.map((demand, cutIdx) => ({
+      demand,
+      materialName: mat.name,
+      pipeNumber: pipeIdx + 1,
+      cutNumber: sawn.get(demand.id) ?? cutIdx + 1,
+      cutCount: pipe.cuts.length,
+    })),
+  ))
+}
+
+/** Splits the labels into pages, leaving the first `skip` positions of the first sheet empty */
+export function paginateLabels<T>(labels: T[], sheet: LabelSheet, skip: number): (T | null)[][] {
+  const perPage = sheet.columns * sheet.rows
+  const slots: (T | null)[] = [...new Array<null>(Math.min(Math.max(0, skip), perPage - 1)).fill(null), ...labels]
+  const pages: (T | null)[][] = []
+  for (let i = 0; i < slots.length; i += perPage) pages.push(slots.slice(i, i + perPage))
+  return pages
+}
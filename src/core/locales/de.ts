@@ -0,0 +1,401 @@
+import type { Message } from '../i18n'
+
+export const de = {
+  // ── Common ──
+  'common.add': 'Hinzufügen',
+  'common.project': 'Projekt',
+  'common.material': 'Material',
+  'common.length': 'Länge',
+  'common.unit': 'Einheit',
+  'common.count': 'Anzahl',
+  'common.price': 'Preis',
+  'common.stockLength': 'Rohrlänge',
+  'common.optional': 'optional',
+  'common.example': 'z.B. {value}',
+  'common.quoted': '„{text}“',
+  'common.close': 'Schließen',
+  'common.cancel': 'Abbrechen',
+  'common.calculating': 'Berechne…',
+  'common.tooLong': 'zu lang!',
+  'common.unknownError': 'Unbekannter Fehler',
+  'common.editHint': 'Klicken zum Bearbeiten',
+  'common.editHintUnit': 'Klicken zum Bearbeiten ({unit})',
+  'common.shortened': '{length} (statt {requested})',
+  'common.pieces': ({ count }) => (count === 1 ? '1 Stück' : `${count} Stück`),
+  'common.pipes': ({ count }) => (count === 1 ? '1 Rohr' : `${count} Rohre`),
+
+  // ── App ──
+  'app.title': 'Rohr-Zuschnittoptimierung',
+  'app.subtitle': '1D Cutting Stock — Verschnittminimierung',
+  'app.stepMaterial': 'Material',
+  'app.stepDemand': 'Bedarf & Ergebnis',
+  'app.next': 'Weiter zu Bedarf →',
+  'app.back': '← Material',
+  'app.jobsError': 'Aufträge konnten nicht gespeichert werden: {error}',
+  'app.calcFailed': 'Berechnung fehlgeschlagen: {error}',
+  'app.editedPlan': 'Von Hand bearbeiteter Schnittplan',
+  'app.importedPlan': 'Importierter Schnittplan',
+  'app.recalculate': 'Neu berechnen',
+  'app.confirmAccept': 'Plan übernehmen? Verbrauchte Reststücke werden ausgebucht, neue eingebucht und die zugeschnittenen Bedarfe entfernt.',
+
+  // ── Display settings ──
+  'settings.language': 'Sprache',
+  'settings.units': 'Einheiten',
+  'settings.metric': 'Metrisch (mm / m)',
+  'settings.imperial': 'Zoll (ft / in)',
+  'settings.precision': 'Genauigkeit der Anzeige',
+  'settings.fraction': 'auf 1/{fraction}″ runden',
+
+  // ── Materials ──
+  'material.title': 'Materialien',
+  'material.name': 'Bezeichnung',
+  'material.namePlaceholder': 'z.B. DN50 Kupfer',
+  'material.stockLength': 'Rohrlänge ({unit})',
+  'material.price': 'Preis (€)',
+  'material.pricePerMeter': 'oder €/m',
+  'material.cutCost': '€/Schnitt',
+  'material.kerf': 'Sägeschnitt (mm)',
+  'material.startWaste': 'Abfall Anfang (mm)',
+  'material.endWaste': 'Abfall Ende (mm)',
+  'material.empty': 'Noch keine Materialien angelegt.',
+  'material.available': 'Bestand',
+  'material.usable': 'Nutzbar',
+  'material.summary': 'Schnitt {kerf} mm · Abfall {start} / {end} mm',
+  'material.perMetre': '{price}/m',
+  'material.perCut': '{price}/Schnitt',
+  'material.unplaceable': '{count} Bedarf zu lang!',
+  'material.remnants': 'Reststücke:',
+  'material.noRemnants': 'keine',
+  'material.stockPlaceholder': 'Länge ({unit})',
+  'material.addStock': '+ Variante',
+  'material.remnantPlaceholder': 'Reststück ({unit})',
+  'material.addRemnant': '+ Reststück',
+  'material.split': 'Überlängen teilen',
+  'material.jointAllowance': 'Stoßzugabe (mm)',
+  'material.minSegment': 'Mindestlänge (mm)',
+  'material.weight': 'kg/m',
+  'catalog.title': 'Aus Katalog',
+  'catalog.use': 'Übernehmen',
+  'catalog.delete': 'Aus Katalog entfernen',
+  'catalog.export': 'Katalog exportieren',
+  'catalog.import': 'Katalog importieren…',
+  'catalog.reset': 'Standardkatalog',
+  'catalog.confirmReset': 'Katalog auf die Standardeinträge zurücksetzen? Eigene Einträge gehen verloren.',
+  'catalog.fileName': 'Materialkatalog',
+  'catalog.save': 'In Katalog',
+  'catalog.saveHint': 'Material im Katalog speichern, um es in anderen Aufträgen zu verwenden',
+  'catalog.weightPerMeter': '{weight} kg/m',
+  'pipeMaterial.copper': 'Kupfer',
+  'pipeMaterial.steel': 'Stahl',
+  'pipeMaterial.stainless': 'Edelstahl',
+  'pipeMaterial.aluminium': 'Aluminium',
+  'pipeMaterial.pe': 'PE',
+  'pipeMaterial.pp': 'PP',
+  'pipeMaterial.pvc': 'PVC',
+
+  // ── Demand ──
+  'demand.title': 'Bedarf',
+  'demand.projectPlaceholder': 'z.B. EG Bad',
+  'demand.importTable': 'Tabelle importieren…',
+  'demand.empty': 'Noch kein Bedarf angelegt.',
+  'demand.splitInto': 'wird in {count} Teile geteilt',
+  'demand.clearAll': 'Alle löschen',
+  'demand.minLength': 'Mindestlänge',
+  'demand.minLengthPlaceholder': 'optional, z.B. -5',
+  'demand.minLengthHint': 'Kürzeste zulässige Länge, oder mit Minus davor: so viel darf das Stück kürzer werden',
+
+  // ── Result ──
+  'result.title': 'Ergebnis',
+  'result.objectiveWaste': 'Verschnitt',
+  'result.objectiveCost': 'Kosten',
+  'result.modeFast': 'Schnell',
+  'result.modeExact': 'Exakt',
+  'result.labels': 'Etiketten',
+  'result.cutList': 'Schnittliste',
+  'result.print': 'Als PDF drucken',
+  'result.changed': ({ count }) => (count === 1
+    ? '1 Rohr gegenüber dem vorherigen Plan geändert'
+    : `${count} Rohre gegenüber dem vorherigen Plan geändert`),
+  'result.progress': '{done}/{total} Materialgruppen',
+  'result.stale': 'angezeigtes Ergebnis ist veraltet',
+  'result.purchases': 'Einkaufsliste',
+  'result.total': 'Summe',
+  'result.weights': 'Gewicht',
+  'result.weightOrder': 'Zu bestellen',
+  'result.weightScrap': 'Schrott',
+  'result.patterns': 'Schnittmuster',
+  'result.cuts': 'Zuschnitte',
+  'result.costs': 'Kosten',
+  'result.costCuts': 'Schnitte',
+  'result.costTotal': 'Gesamt',
+  'result.costWaste': 'davon Verschnitt',
+  'result.costsIncomplete': 'Nicht alle Rohrlängen haben einen Preis; die Summen sind unvollständig.',
+  'result.share': 'Anteil',
+  'result.pipes': 'Rohre',
+  'result.remnantsUsed': 'Reststücke genutzt',
+  'result.efficiency': 'Nutzungsgrad',
+  'result.reusable': 'Wiederverwendbar ({count} Stück)',
+  'result.scrap': 'Schrott',
+  'result.lowerBound': 'Untergrenze',
+  'result.optimal': 'optimal',
+  'result.gap': 'Lücke',
+  'result.legendFixedWaste': 'Fixabfall',
+  'result.legendKerf': 'Sägeschnitt',
+  'result.legendWaste': 'Verschnitt',
+  'result.legendOffcut': 'Reststück (≥ {length})',
+  'result.legendSplit': 'Geteiltes Stück (A2/3 = Teil 2 von 3 des Stücks A)',
+  'result.minRemnant': 'Reststücke ab (mm)',
+  'result.fillLocked': 'Reste gesperrter Rohre nutzen',
+  'result.accept': 'Plan übernehmen',
+  'result.unassigned': 'Nicht zugewiesene Stücke',
+  'result.reason': 'Grund',
+  'result.reasonTooLong': 'zu lang',
+  'result.reasonNoStock': 'kein Bestand',
+  'result.shortfall': 'Nachbestellen',
+  'result.shortfallHint': 'Zusätzliche Stangen für die Stücke, für die der Bestand nicht reicht',
+
+  // ── Pipes in the plan ──
+  'pipe.label': 'Rohr {number}',
+  'pipe.remnant': 'Reststück',
+  'pipe.edited': 'bearbeitet',
+  'pipe.changed': 'geändert',
+  'pipe.lock': 'sperren',
+  'pipe.locked': 'gesperrt',
+  'pipe.lockHint': 'Als geschnitten sperren',
+  'pipe.unlockHint': 'Bereits geschnitten — Sperre aufheben',
+  'pipe.segment': 'Teil {index} von {count} eines {length}-Stücks',
+  'pipe.joint': 'Stoß {tag}',
+  'pipe.new': '+ Neues Rohr',
+  'pipe.restAfter': 'Rest danach {length}',
+
+  // ── Moving cuts by hand ──
+  'move.cutNotFound': 'Schnitt nicht gefunden',
+  'move.pipeNotFound': 'Rohr nicht gefunden',
+  'move.locked': 'Rohr ist gesperrt',
+  'move.noStock': 'Keine passende Rohrlänge verfügbar',
+  'move.tooLong': 'Passt nicht: {length} zu lang',
+
+  // ── Strategy comparison ──
+  'comparison.title': 'Strategien vergleichen',
+  'comparison.run': 'Vergleichen',
+  'comparison.rerun': 'Neu vergleichen',
+  'comparison.failed': 'Vergleich fehlgeschlagen: {error}',
+  'comparison.strategy': 'Strategie',
+  'comparison.remnants': 'Reststücke',
+  'comparison.sawPasses': 'Sägegänge',
+  'comparison.unassigned': 'Nicht zugeordnet',
+  'comparison.active': 'aktiv',
+  'comparison.adopt': 'Übernehmen',
+  'strategy.best-fit': 'Best-Fit',
+  'strategy.first-fit': 'First-Fit',
+  'strategy.exact': 'Exakt',
+  'strategy.separate': 'Projekte getrennt',
+  'strategy.patterns': 'Wenig Schnittmuster',
+
+  // ── Project separation ──
+  'mixing.label': 'Projekte auf einem Rohr',
+  'mixing.free': 'beliebig mischen',
+  'mixing.minimize': 'möglichst wenige Projekte je Rohr',
+  'mixing.groups': 'nur innerhalb von Gruppen mischen',
+  'mixing.separate': 'nie mischen',
+  'mixing.perPipe': 'Ø {value} Projekte je Rohr',
+  'mixing.ownGroup': 'eigene Gruppe',
+  'mixing.extra': 'Mehrbedarf gegenüber gemischtem Plan: +{bars} Rohre, +{length}',
+  'mixing.noExtra': 'Kein Mehrbedarf gegenüber gemischtem Plan',
+  'mixing.mixed': '(gemischt: {bars} Rohre, Ø {value} Projekte je Rohr)',
+
+  // ── Project priorities ──
+  'priority.title': 'Vorrang bei knappem Bestand',
+  'priority.hint': 'Reicht der Bestand nicht für alle Stücke, bekommen Projekte mit höherer Priorität (1 = zuerst) und früherem Termin die Stangen zuerst.',
+  'priority.priority': 'Priorität',
+  'priority.dueDate': 'Termin',
+
+  // ── Jobs ──
+  'job.label': 'Auftrag',
+  'job.name': 'Name',
+  'job.unnamed': 'Ohne Namen',
+  'job.new': 'Neu',
+  'job.duplicate': 'Duplizieren',
+  'job.delete': 'Löschen',
+  'job.confirmDelete': 'Auftrag {name} löschen?',
+  'job.export': 'Exportieren',
+  'job.withPlan': 'mit Schnittplan',
+  'job.import': 'Importieren…',
+  'job.importFailed': '{file} konnte nicht importiert werden ({count} Fehler):',
+  'job.defaultName': 'Auftrag {number}',
+  'job.copyName': '{name} (Kopie)',
+  'job.importedName': 'Importierter Auftrag',
+
+  // ── Job and catalog files ──
+  'file.invalidJson': 'Keine gültige JSON-Datei',
+  'file.notJob': 'Keine Auftragsdatei des Rohr-Optimierers',
+  'file.notCatalog': 'Keine Katalogdatei des Rohr-Optimierers',
+  'file.entry': 'Eintrag {number}',
+  'file.notLengthList': '{key} muss eine Liste positiver Längen sein',
+  'file.notAtLeastZero': '{key} muss eine Zahl ab 0 sein',
+  'file.unknownVersion': 'Unbekannte Dateiversion',
+  'file.versionTooNew': 'Dateiversion {version} ist neuer als die unterstützte Version {supported}',
+  'file.noMigration': 'Keine Migration von Version {version} vorhanden',
+  'file.jobMissing': 'Auftragsdaten fehlen',
+  'file.settings': 'Einstellungen',
+  'file.material': 'Material {number}',
+  'file.stock': 'Stangenlänge {number}',
+  'file.remnant': 'Reststück {number}',
+  'file.demand': 'Bedarf {number}',
+  'file.pipe': 'Rohr {number}',
+  'file.planFor': 'Schnittplan für Material {id}',
+  'file.lockedFor': 'Gesperrte Rohre für Material {id}',
+  'file.notObject': 'kein Objekt',
+  'file.keyNotObject': '{key} ist kein Objekt',
+  'file.notText': '{key} fehlt oder ist kein Text',
+  'file.notNumber': '{key} fehlt oder ist keine Zahl',
+  'file.notPositive': '{key} muss größer als 0 sein (ist {value})',
+  'file.belowMin': '{key} darf nicht kleiner als {min} sein (ist {value})',
+  'file.notInteger': '{key} muss eine ganze Zahl sein (ist {value})',
+  'file.notBoolean': '{key} muss true oder false sein',
+  'file.oneOf': '{key} muss einer der Werte {values} sein',
+  'file.notList': '{key} fehlt oder ist keine Liste',
+  'file.duplicateId': 'id {id} ist doppelt vergeben',
+  'file.noStocks': 'stocks muss mindestens eine Stangenlänge enthalten',
+  'file.minAboveLength': 'minLengthMm ist größer als lengthMm',
+  'file.unknownMaterial': 'unbekannte materialId {id}',
+  'file.settingsMissing': 'settings fehlt oder ist kein Objekt',
+  'file.projectGroups': 'projectGroups muss Projekten Gruppennamen zuordnen',
+  'file.projectPriorities': 'projectPriorities muss Projekten Priorität (ganze Zahl ab 1) und Termin (JJJJ-MM-TT) zuordnen',
+  'file.notPipeList': 'keine Liste von Rohren',
+  'file.unknownDemand': 'Schnitt verweist auf unbekannten Bedarf {id}',
+  'file.otherMaterial': 'Bedarf {id} gehört zu einem anderen Material',
+  'file.plannedTwice': 'Bedarf {id} ist mehrfach verplant',
+  'file.unknownStockLength': 'Stangenlänge {length} gibt es bei diesem Material nicht',
+  'file.unknownRemnant': 'Reststück {id} gibt es bei diesem Material nicht',
+  'file.remnantTwice': 'Reststück {id} ist mehrfach verplant',
+  'file.overflow': 'Schnitte mit Sägeschnitten ({needed} mm) passen nicht auf die nutzbare Länge ({usable} mm)',
+  'file.outsideTolerance': 'Schnittlänge {length} liegt außerhalb der Toleranz von Bedarf {id}',
+
+  // ── History ──
+  'history.undo': '↶ Rückgängig',
+  'history.redo': '↷ Wiederholen',
+  'history.undoHint': 'Rückgängig: {action} (Strg+Z)',
+  'history.redoHint': 'Wiederholen: {action} (Strg+Umschalt+Z)',
+  'history.list': 'Verlauf',
+  'history.addMaterial': 'Material {name} angelegt',
+  'history.deleteMaterial': 'Material {name} gelöscht',
+  'history.deleteMaterialWithDemand': 'Material {name} gelöscht mit {pieces} Bedarf',
+  'history.renameMaterial': 'Material {name} in {newName} umbenannt',
+  'history.addStock': 'Rohrlänge {length} bei {material} hinzugefügt',
+  'history.setStockLength': 'Rohrlänge bei {material} auf {length} geändert',
+  'history.deleteStock': 'Rohrlänge {length} bei {material} entfernt',
+  'history.addRemnants': ({ count, material }) => (count === 1
+    ? `1 Reststück bei ${material} eingebucht`
+    : `${count} Reststücke bei ${material} eingebucht`),
+  'history.deleteRemnant': 'Reststück {length} bei {material} ausgebucht',
+  'history.splitOn': 'Teilen überlanger Stücke bei {material} eingestellt',
+  'history.splitOff': 'Teilen überlanger Stücke bei {material} ausgeschaltet',
+  'history.acceptPlan': 'Plan übernommen, {pieces} zugeschnitten',
+  'history.lock': 'Rohr bei {material} gesperrt',
+  'history.unlock': 'Rohr bei {material} entsperrt',
+  'history.addDemands': '{pieces} {length} {material} für {project} hinzugefügt',
+  'history.importDemands': '{pieces} Bedarf importiert',
+  'history.renameProject': 'Projekt {project} in {newName} umbenannt',
+  'history.changeLength': 'Länge {length} auf {newLength} geändert',
+  'history.groupChange': '{change} ({pieces} {material})',
+  'history.setCount': 'Anzahl {length} {material} für {project} auf {count} geändert',
+  'history.deleteGroup': '{pieces} {length} {material} für {project} gelöscht',
+  'history.deleteDemand': 'Bedarf gelöscht',
+  'history.clearDemands': 'Alle Bedarfe gelöscht ({pieces})',
+  'history.setMinLength': 'Mindestlänge für {length} auf {minLength} gesetzt',
+  'history.clearMinLength': 'Toleranz für {length} entfernt',
+  'history.settings': 'Berechnungseinstellungen geändert',
+  'history.minRemnant': 'Mindestlänge für Reststücke geändert',
+
+  // ── Table import ──
+  'import.title': 'Tabelle importieren',
+  'import.source': 'Zeilen aus Excel einfügen oder CSV-Datei wählen',
+  'import.placeholder': 'Projekt\tMaterial\tLänge\tAnzahl\nEG Bad\tCu 15\t2500\t4',
+  'import.hasHeader': 'Erste Zeile enthält Spaltennamen',
+  'import.column': 'Spalte {number}',
+  'import.projectForAll': 'Projekt für alle Zeilen',
+  'import.materialForAll': 'Material für alle Zeilen',
+  'import.unitIfEmpty': 'Einheit (wenn leer)',
+  'import.unknownMaterials': 'Unbekannte Materialien',
+  'import.barLength': 'Stangenlänge ({unit})',
+  'import.create': 'Anlegen',
+  'import.line': 'Zeile',
+  'import.status': 'Status',
+  'import.ok': 'OK',
+  'import.accept': '{pieces} übernehmen',
+  'import.skipped': ({ count }) => (count === 1
+    ? '1 fehlerhafte Zeile wird übersprungen'
+    : `${count} fehlerhafte Zeilen werden übersprungen`),
+  'import.projectMissing': 'Projekt fehlt',
+  'import.materialMissing': 'Material fehlt',
+  'import.materialUnknown': 'Material unbekannt',
+  'import.unitUnknown': 'Einheit „{unit}“ unbekannt',
+  'import.lengthInvalid': 'Länge ungültig',
+  'import.countInvalid': 'Anzahl ungültig',
+
+  // ── Quick entry ──
+  'quick.open': 'Schnelleingabe',
+  'quick.form': 'Zum Formular',
+  'quick.placeholder': '3x 2500 Cu 15×1 EG Bad\n2,35m x4 @OG Küche',
+  'quick.hint': 'Anzahl (3x), Länge (2500, 2,35m, 7\'3"), Toleranz (-5), Material und Projekt in beliebiger Reihenfolge; nach @ folgt nur das Projekt. Enter übernimmt, Umschalt+Enter für eine neue Zeile.',
+  'quick.tabHint': 'Tab ergänzt',
+  'quick.lengthMissing': 'Länge fehlt',
+  'quick.lengthTwice': '„{word}“ ist eine zweite Länge – Projekt mit @ davor angeben',
+  'quick.countTwice': 'Anzahl doppelt',
+  'quick.toleranceInvalid': 'Toleranz „{word}“ ungültig',
+  'quick.unknownWords': '„{words}“ nicht erkannt',
+
+  // ── Cut list ──
+  'cutList.title': 'Schnittliste',
+  'cutList.print': 'Schnittliste drucken',
+  'cutList.hint': 'Rohre und Schnitte in Sägereihenfolge. Die Schnittposition zählt ab Stangenanfang, Einspannzugabe und Sägeschnitte eingerechnet.',
+  'cutList.empty': 'Keine Rohre zu schneiden.',
+  'cutList.summary': 'Anschlag {stops}× umstellen (in Planreihenfolge {planStops}×)',
+  'cutList.pipe': 'Rohr',
+  'cutList.bar': 'Stange',
+  'cutList.cut': 'Schnitt',
+  'cutList.stop': 'Anschlag',
+  'cutList.newStop': 'umstellen',
+  'cutList.position': 'Schnittposition',
+
+  // ── Labels ──
+  'labels.print': 'Etiketten drucken',
+  'labels.sheet': 'Bogen',
+  'labels.custom': 'Eigenes Format',
+  'labels.columns': 'Spalten',
+  'labels.rows': 'Zeilen',
+  'labels.margin': 'Rand (mm)',
+  'labels.gap': 'Abstand (mm)',
+  'labels.skip': 'Frei lassen',
+  'labels.summary': ({ count, sheets }) => `${count} Etiketten auf ${sheets} ${sheets === 1 ? 'Bogen' : 'Bögen'}`,
+  'labels.part': 'Teil {index}/{count}',
+  'labels.position': 'Rohr {pipe} · Schnitt {cut}/{count}',
+
+  // ── Command line ──
+  'cli.usage': `Aufruf: pipe-optimizer plan <auftrag.json | -> [Optionen]
+
+Plant die Zuschnitte eines Auftrags und gibt Schnittplan und Einkaufsliste aus.
+Die Datei ist eine aus der Oberfläche exportierte Auftragsdatei oder ein
+Objekt mit "materials" und "demands" im selben Aufbau. "-" liest von stdin.
+
+Optionen:
+  --format text|json|csv   Ausgabeformat (Standard: text)
+  --mode fast|exact        Rechenverfahren (Standard: aus der Datei, sonst fast)
+  --objective waste|cost   Ziel (Standard: aus der Datei, sonst waste)
+  --units metric|imperial  Längen im Text in mm/m oder ft/in (Standard: metric)
+  --lang de|en             Sprache der Ausgabe (Standard: de)
+  -h, --help               Diese Hilfe
+
+Exit-Code 1, wenn Stücke nicht zugeordnet werden konnten; 2 bei Fehlern.
+`,
+  'cli.invalidValue': 'Unbekannter Wert {value} für --{option}',
+  'cli.unreadable': 'Datei kann nicht gelesen werden: {error}',
+  'cli.summary': '{pieces} geplant, {count} nicht zugeordnet',
+  'cli.pipe': 'Rohr',
+  'cli.bar': 'Stange',
+  'cli.source': 'Quelle',
+  'cli.barLength': 'Stangenlänge',
+  'cli.id': 'Id',
+  'cli.offcut': 'Rest',
+} satisfies Record<string, Message>
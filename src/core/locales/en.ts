@@ -0,0 +1,401 @@
+import type { Messages } from '../i18n'
+
+export const en: Messages = {
+  // ── Common ──
+  'common.add': 'Add',
+  'common.project': 'Project',
+  'common.material': 'Material',
+  'common.length': 'Length',
+  'common.unit': 'Unit',
+  'common.count': 'Count',
+  'common.price': 'Price',
+  'common.stockLength': 'Stock length',
+  'common.optional': 'optional',
+  'common.example': 'e.g. {value}',
+  'common.quoted': '“{text}”',
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.calculating': 'Calculating…',
+  'common.tooLong': 'too long!',
+  'common.unknownError': 'Unknown error',
+  'common.editHint': 'Click to edit',
+  'common.editHintUnit': 'Click to edit ({unit})',
+  'common.shortened': '{length} (instead of {requested})',
+  'common.pieces': ({ count }) => (count === 1 ? '1 piece' : `${count} pieces`),
+  'common.pipes': ({ count }) => (count === 1 ? '1 pipe' : `${count} pipes`),
+
+  // ── App ──
+  'app.title': 'Pipe Cutting Optimizer',
+  'app.subtitle': '1D cutting stock — waste minimization',
+  'app.stepMaterial': 'Material',
+  'app.stepDemand': 'Demand & result',
+  'app.next': 'Continue to demand →',
+  'app.back': '← Material',
+  'app.jobsError': 'Jobs could not be saved: {error}',
+  'app.calcFailed': 'Calculation failed: {error}',
+  'app.editedPlan': 'Cutting plan edited by hand',
+  'app.importedPlan': 'Imported cutting plan',
+  'app.recalculate': 'Recalculate',
+  'app.confirmAccept': 'Accept the plan? Used offcuts are booked out, new ones booked in and the cut demand is removed.',
+
+  // ── Display settings ──
+  'settings.language': 'Language',
+  'settings.units': 'Units',
+  'settings.metric': 'Metric (mm / m)',
+  'settings.imperial': 'Imperial (ft / in)',
+  'settings.precision': 'Display precision',
+  'settings.fraction': 'round to 1/{fraction}″',
+
+  // ── Materials ──
+  'material.title': 'Materials',
+  'material.name': 'Name',
+  'material.namePlaceholder': 'e.g. DN50 copper',
+  'material.stockLength': 'Stock length ({unit})',
+  'material.price': 'Price (€)',
+  'material.pricePerMeter': 'or €/m',
+  'material.cutCost': '€/cut',
+  'material.kerf': 'Saw kerf (mm)',
+  'material.startWaste': 'Start waste (mm)',
+  'material.endWaste': 'End waste (mm)',
+  'material.empty': 'No materials yet.',
+  'material.available': 'In stock',
+  'material.usable': 'Usable',
+  'material.summary': 'kerf {kerf} mm · waste {start} / {end} mm',
+  'material.perMetre': '{price}/m',
+  'material.perCut': '{price}/cut',
+  'material.unplaceable': '{count} demand too long!',
+  'material.remnants': 'Offcuts:',
+  'material.noRemnants': 'none',
+  'material.stockPlaceholder': 'Length ({unit})',
+  'material.addStock': '+ Variant',
+  'material.remnantPlaceholder': 'Offcut ({unit})',
+  'material.addRemnant': '+ Offcut',
+  'material.split': 'Split over-length pieces',
+  'material.jointAllowance': 'Joint allowance (mm)',
+  'material.minSegment': 'Minimum length (mm)',
+  'material.weight': 'kg/m',
+  'catalog.title': 'From catalog',
+  'catalog.use': 'Use',
+  'catalog.delete': 'Remove from catalog',
+  'catalog.export': 'Export catalog',
+  'catalog.import': 'Import catalog…',
+  'catalog.reset': 'Standard catalog',
+  'catalog.confirmReset': 'Reset the catalog to the standard entries? Your own entries will be lost.',
+  'catalog.fileName': 'material-catalog',
+  'catalog.save': 'To catalog',
+  'catalog.saveHint': 'Save the material to the catalog to use it in other jobs',
+  'catalog.weightPerMeter': '{weight} kg/m',
+  'pipeMaterial.copper': 'Copper',
+  'pipeMaterial.steel': 'Steel',
+  'pipeMaterial.stainless': 'Stainless steel',
+  'pipeMaterial.aluminium': 'Aluminium',
+  'pipeMaterial.pe': 'PE',
+  'pipeMaterial.pp': 'PP',
+  'pipeMaterial.pvc': 'PVC',
+
+  // ── Demand ──
+  'demand.title': 'Demand',
+  'demand.projectPlaceholder': 'e.g. Ground floor bath',
+  'demand.importTable': 'Import table…',
+  'demand.empty': 'No demand yet.',
+  'demand.splitInto': 'split into {count} parts',
+  'demand.clearAll': 'Delete all',
+  'demand.minLength': 'Minimum length',
+  'demand.minLengthPlaceholder': 'optional, e.g. -5',
+  'demand.minLengthHint': 'Shortest acceptable length, or with a leading minus: how much shorter the piece may be',
+
+  // ── Result ──
+  'result.title': 'Result',
+  'result.objectiveWaste': 'Waste',
+  'result.objectiveCost': 'Cost',
+  'result.modeFast': 'Fast',
+  'result.modeExact': 'Exact',
+  'result.labels': 'Labels',
+  'result.cutList': 'Cut list',
+  'result.print': 'Print as PDF',
+  'result.changed': ({ count }) => (count === 1
+    ? '1 pipe changed since the previous plan'
+    : `${count} pipes changed since the previous plan`),
+  'result.progress': '{done}/{total} material groups',
+  'result.stale': 'the result shown is out of date',
+  'result.purchases': 'Shopping list',
+  'result.total': 'Total',
+  'result.weights': 'Weight',
+  'result.weightOrder': 'To order',
+  'result.weightScrap': 'Scrap',
+  'result.patterns': 'Cutting patterns',
+  'result.cuts': 'Cuts',
+  'result.costs': 'Costs',
+  'result.costCuts': 'Cuts',
+  'result.costTotal': 'Total',
+  'result.costWaste': 'of which waste',
+  'result.costsIncomplete': 'Not every stock length has a price; the totals are incomplete.',
+  'result.share': 'Share',
+  'result.pipes': 'Pipes',
+  'result.remnantsUsed': 'Offcuts used',
+  'result.efficiency': 'Efficiency',
+  'result.reusable': 'Reusable ({count} pieces)',
+  'result.scrap': 'Scrap',
+  'result.lowerBound': 'Lower bound',
+  'result.optimal': 'optimal',
+  'result.gap': 'Gap',
+  'result.legendFixedWaste': 'Fixed waste',
+  'result.legendKerf': 'Saw kerf',
+  'result.legendWaste': 'Waste',
+  'result.legendOffcut': 'Offcut (≥ {length})',
+  'result.legendSplit': 'Split piece (A2/3 = part 2 of 3 of piece A)',
+  'result.minRemnant': 'Offcuts from (mm)',
+  'result.fillLocked': 'Use the rest of locked pipes',
+  'result.accept': 'Accept plan',
+  'result.unassigned': 'Unassigned pieces',
+  'result.reason': 'Reason',
+  'result.reasonTooLong': 'too long',
+  'result.reasonNoStock': 'out of stock',
+  'result.shortfall': 'To order',
+  'result.shortfallHint': 'Extra bars for the pieces the stock on hand does not cover',
+
+  // ── Pipes in the plan ──
+  'pipe.label': 'Pipe {number}',
+  'pipe.remnant': 'Offcut',
+  'pipe.edited': 'edited',
+  'pipe.changed': 'changed',
+  'pipe.lock': 'lock',
+  'pipe.locked': 'locked',
+  'pipe.lockHint': 'Lock as already cut',
+  'pipe.unlockHint': 'Already cut — unlock',
+  'pipe.segment': 'Part {index} of {count} of a {length} piece',
+  'pipe.joint': 'joint {tag}',
+  'pipe.new': '+ New pipe',
+  'pipe.restAfter': '{length} left afterwards',
+
+  // ── Moving cuts by hand ──
+  'move.cutNotFound': 'Cut not found',
+  'move.pipeNotFound': 'Pipe not found',
+  'move.locked': 'Pipe is locked',
+  'move.noStock': 'No suitable stock length available',
+  'move.tooLong': 'Does not fit: {length} too long',
+
+  // ── Strategy comparison ──
+  'comparison.title': 'Compare strategies',
+  'comparison.run': 'Compare',
+  'comparison.rerun': 'Compare again',
+  'comparison.failed': 'Comparison failed: {error}',
+  'comparison.strategy': 'Strategy',
+  'comparison.remnants': 'Offcuts',
+  'comparison.sawPasses': 'Saw passes',
+  'comparison.unassigned': 'Unassigned',
+  'comparison.active': 'active',
+  'comparison.adopt': 'Adopt',
+  'strategy.best-fit': 'Best fit',
+  'strategy.first-fit': 'First fit',
+  'strategy.exact': 'Exact',
+  'strategy.separate': 'Projects separate',
+  'strategy.patterns': 'Few patterns',
+
+  // ── Project separation ──
+  'mixing.label': 'Projects on one pipe',
+  'mixing.free': 'mix freely',
+  'mixing.minimize': 'as few projects per pipe as possible',
+  'mixing.groups': 'mix within groups only',
+  'mixing.separate': 'never mix',
+  'mixing.perPipe': 'Ø {value} projects per pipe',
+  'mixing.ownGroup': 'own group',
+  'mixing.extra': 'Extra material compared with a mixed plan: +{bars} pipes, +{length}',
+  'mixing.noExtra': 'No extra material compared with a mixed plan',
+  'mixing.mixed': '(mixed: {bars} pipes, Ø {value} projects per pipe)',
+
+  // ── Project priorities ──
+  'priority.title': 'Priority when stock runs short',
+  'priority.hint': 'If the stock on hand cannot cover every piece, projects with a higher priority (1 = first) and an earlier due date get the bars first.',
+  'priority.priority': 'Priority',
+  'priority.dueDate': 'Due date',
+
+  // ── Jobs ──
+  'job.label': 'Job',
+  'job.name': 'Name',
+  'job.unnamed': 'Untitled',
+  'job.new': 'New',
+  'job.duplicate': 'Duplicate',
+  'job.delete': 'Delete',
+  'job.confirmDelete': 'Delete job {name}?',
+  'job.export': 'Export',
+  'job.withPlan': 'with cutting plan',
+  'job.import': 'Import…',
+  'job.importFailed': '{file} could not be imported ({count} errors):',
+  'job.defaultName': 'Job {number}',
+  'job.copyName': '{name} (copy)',
+  'job.importedName': 'Imported job',
+
+  // ── Job and catalog files ──
+  'file.invalidJson': 'Not a valid JSON file',
+  'file.notJob': 'Not a pipe optimizer job file',
+  'file.notCatalog': 'Not a pipe optimizer catalog file',
+  'file.entry': 'Entry {number}',
+  'file.notLengthList': '{key} must be a list of positive lengths',
+  'file.notAtLeastZero': '{key} must be a number from 0',
+  'file.unknownVersion': 'Unknown file version',
+  'file.versionTooNew': 'File version {version} is newer than the supported version {supported}',
+  'file.noMigration': 'No migration from version {version}',
+  'file.jobMissing': 'Job data missing',
+  'file.settings': 'Settings',
+  'file.material': 'Material {number}',
+  'file.stock': 'Bar length {number}',
+  'file.remnant': 'Remnant {number}',
+  'file.demand': 'Demand {number}',
+  'file.pipe': 'Pipe {number}',
+  'file.planFor': 'Cutting plan for material {id}',
+  'file.lockedFor': 'Locked pipes for material {id}',
+  'file.notObject': 'not an object',
+  'file.keyNotObject': '{key} is not an object',
+  'file.notText': '{key} is missing or not text',
+  'file.notNumber': '{key} is missing or not a number',
+  'file.notPositive': '{key} must be greater than 0 (is {value})',
+  'file.belowMin': '{key} must not be less than {min} (is {value})',
+  'file.notInteger': '{key} must be a whole number (is {value})',
+  'file.notBoolean': '{key} must be true or false',
+  'file.oneOf': '{key} must be one of {values}',
+  'file.notList': '{key} is missing or not a list',
+  'file.duplicateId': 'id {id} is used more than once',
+  'file.noStocks': 'stocks must contain at least one bar length',
+  'file.minAboveLength': 'minLengthMm is greater than lengthMm',
+  'file.unknownMaterial': 'unknown materialId {id}',
+  'file.settingsMissing': 'settings is missing or not an object',
+  'file.projectGroups': 'projectGroups must map projects to group names',
+  'file.projectPriorities': 'projectPriorities must map projects to a priority (whole number from 1) and a due date (YYYY-MM-DD)',
+  'file.notPipeList': 'not a list of pipes',
+  'file.unknownDemand': 'cut refers to unknown demand {id}',
+  'file.otherMaterial': 'demand {id} belongs to another material',
+  'file.plannedTwice': 'demand {id} is planned more than once',
+  'file.unknownStockLength': 'the material has no bar length {length}',
+  'file.unknownRemnant': 'the material has no remnant {id}',
+  'file.remnantTwice': 'remnant {id} is planned more than once',
+  'file.overflow': 'cuts with kerfs ({needed} mm) do not fit the usable length ({usable} mm)',
+  'file.outsideTolerance': 'cut length {length} is outside the tolerance of demand {id}',
+
+  // ── History ──
+  'history.undo': '↶ Undo',
+  'history.redo': '↷ Redo',
+  'history.undoHint': 'Undo: {action} (Ctrl+Z)',
+  'history.redoHint': 'Redo: {action} (Ctrl+Shift+Z)',
+  'history.list': 'History',
+  'history.addMaterial': 'Material {name} added',
+  'history.deleteMaterial': 'Material {name} deleted',
+  'history.deleteMaterialWithDemand': 'Material {name} deleted with {pieces} of demand',
+  'history.renameMaterial': 'Material {name} renamed to {newName}',
+  'history.addStock': 'Stock length {length} added to {material}',
+  'history.setStockLength': 'Stock length of {material} changed to {length}',
+  'history.deleteStock': 'Stock length {length} removed from {material}',
+  'history.addRemnants': ({ count, material }) => (count === 1
+    ? `1 offcut of ${material} booked in`
+    : `${count} offcuts of ${material} booked in`),
+  'history.deleteRemnant': 'Offcut {length} of {material} booked out',
+  'history.splitOn': 'Splitting of over-length pieces set for {material}',
+  'history.splitOff': 'Splitting of over-length pieces turned off for {material}',
+  'history.acceptPlan': 'Plan accepted, {pieces} cut',
+  'history.lock': 'Pipe of {material} locked',
+  'history.unlock': 'Pipe of {material} unlocked',
+  'history.addDemands': '{pieces} {length} {material} added for {project}',
+  'history.importDemands': '{pieces} of demand imported',
+  'history.renameProject': 'Project {project} renamed to {newName}',
+  'history.changeLength': 'Length {length} changed to {newLength}',
+  'history.groupChange': '{change} ({pieces} {material})',
+  'history.setCount': 'Count of {length} {material} for {project} changed to {count}',
+  'history.deleteGroup': '{pieces} {length} {material} deleted for {project}',
+  'history.deleteDemand': 'Demand deleted',
+  'history.clearDemands': 'All demand deleted ({pieces})',
+  'history.setMinLength': 'Minimum length for {length} set to {minLength}',
+  'history.clearMinLength': 'Tolerance for {length} removed',
+  'history.settings': 'Calculation settings changed',
+  'history.minRemnant': 'Minimum offcut length changed',
+
+  // ── Table import ──
+  'import.title': 'Import table',
+  'import.source': 'Paste rows from Excel or choose a CSV file',
+  'import.placeholder': 'Project\tMaterial\tLength\tCount\nGround floor bath\tCu 15\t2500\t4',
+  'import.hasHeader': 'First row holds column names',
+  'import.column': 'Column {number}',
+  'import.projectForAll': 'Project for all rows',
+  'import.materialForAll': 'Material for all rows',
+  'import.unitIfEmpty': 'Unit (if empty)',
+  'import.unknownMaterials': 'Unknown materials',
+  'import.barLength': 'Bar length ({unit})',
+  'import.create': 'Create',
+  'import.line': 'Row',
+  'import.status': 'Status',
+  'import.ok': 'OK',
+  'import.accept': 'Add {pieces}',
+  'import.skipped': ({ count }) => (count === 1
+    ? '1 faulty row is skipped'
+    : `${count} faulty rows are skipped`),
+  'import.projectMissing': 'Project missing',
+  'import.materialMissing': 'Material missing',
+  'import.materialUnknown': 'Unknown material',
+  'import.unitUnknown': 'Unknown unit “{unit}”',
+  'import.lengthInvalid': 'Invalid length',
+  'import.countInvalid': 'Invalid count',
+
+  // ── Quick entry ──
+  'quick.open': 'Quick entry',
+  'quick.form': 'Back to form',
+  'quick.placeholder': '3x 2500 Cu 15×1 GF bath\n2.35m x4 @UF kitchen',
+  'quick.hint': 'Count (3x), length (2500, 2.35m, 7\'3"), tolerance (-5), material and project in any order; after @ only the project follows. Enter adds, Shift+Enter starts a new line.',
+  'quick.tabHint': 'Tab completes',
+  'quick.lengthMissing': 'Length missing',
+  'quick.lengthTwice': '“{word}” is a second length – put @ before the project',
+  'quick.countTwice': 'Count given twice',
+  'quick.toleranceInvalid': 'Invalid tolerance “{word}”',
+  'quick.unknownWords': '“{words}” not recognised',
+
+  // ── Cut list ──
+  'cutList.title': 'Cut list',
+  'cutList.print': 'Print cut list',
+  'cutList.hint': 'Pipes and cuts in sawing order. The cut position counts from the start of the bar, clamping allowance and saw kerfs included.',
+  'cutList.empty': 'No pipes to cut.',
+  'cutList.summary': 'Move the stop {stops}× ({planStops}× in plan order)',
+  'cutList.pipe': 'Pipe',
+  'cutList.bar': 'Bar',
+  'cutList.cut': 'Cut',
+  'cutList.stop': 'Stop',
+  'cutList.newStop': 'move',
+  'cutList.position': 'Cut position',
+
+  // ── Labels ──
+  'labels.print': 'Print labels',
+  'labels.sheet': 'Sheet',
+  'labels.custom': 'Custom format',
+  'labels.columns': 'Columns',
+  'labels.rows': 'Rows',
+  'labels.margin': 'Margin (mm)',
+  'labels.gap': 'Gap (mm)',
+  'labels.skip': 'Leave empty',
+  'labels.summary': ({ count, sheets }) => `${count} labels on ${sheets} ${sheets === 1 ? 'sheet' : 'sheets'}`,
+  'labels.part': 'part {index}/{count}',
+  'labels.position': 'Pipe {pipe} · cut {cut}/{count}',
+
+  // ── Command line ──
+  'cli.usage': `Usage: pipe-optimizer plan <job.json | -> [options]
+
+Plans the cuts of a job and prints the cutting plan and shopping list.
+The file is a job file exported from the app, or an object with
+"materials" and "demands" in the same layout. "-" reads from stdin.
+
+Options:
+  --format text|json|csv   Output format (default: text)
+  --mode fast|exact        Solver (default: from the file, else fast)
+  --objective waste|cost   Objective (default: from the file, else waste)
+  --units metric|imperial  Lengths in the text in mm/m or ft/in (default: metric)
+  --lang de|en             Output language (default: de)
+  -h, --help               This help
+
+Exit code 1 if pieces could not be assigned; 2 on errors.
+`,
+  'cli.invalidValue': 'Unknown value {value} for --{option}',
+  'cli.unreadable': 'Cannot read file: {error}',
+  'cli.summary': '{pieces} planned, {count} unassigned',
+  'cli.pipe': 'Pipe',
+  'cli.bar': 'Bar',
+  'cli.source': 'Source',
+  'cli.barLength': 'Bar length',
+  'cli.id': 'Id',
+  'cli.offcut': 'Offcut',
+}
@@ -0,0 +1,54 @@
+import type { CutPlan, Demand, Material, Pipe } from './types'
+import { fillSpaces } from './remnants'
+
+/** Identifies a pipe by its bar and its cuts */
+export function pipeKey(pipe: Pipe): string {
+  return `${pipe.stockId ?? ''}|${pipe.remnantId ?? ''}|${pipe.cuts.map(c => c.id).join(',')}`
+}
+
+/** Whether `pipe` is the locked pipe `entry`, possibly with new pieces on its leftover */
+export function isLockedPipe(entry: Pipe, pipe: Pipe): boolean {
+  return entry.stockId === pipe.stockId
+    && entry.remnantId === pipe.remnantId
+    && entry.cuts.every((c, i) => pipe.cuts[i]?.id === c.id)
+}
+
+/** Ids of the pieces cut on locked pipes; segments count on their own */
+export function lockedPieceIds(locked: Pipe[]): Set<string> {
+  return new Set(locked.flatMap(p => p.cuts.map(c => c.id)))
+}
+
+// Puts new pieces onto the leftover of locked pipes, smallest leftover first.
+// Each new piece needs a cut before it, so the whole leftover is capacity.
+export function fillLocked(locked: Pipe[], pieces: Demand[], mat: Material): { pipes: Pipe[]; rest: Demand[] } {
+  const order = [...locked].sort((a, b) => a.remainingMm - b.remainingMm)
+  const { filled, rest } = fillSpaces(pieces, mat, order, p => (p.cuts.length > 0 ? p.remainingMm : p.usableMm + mat.kerfMm))
+  const extra = new Map(filled.map(f => [f.space, f.cuts]))
+
+  const pipes = locked.map(pipe => {
+    const cuts = extra.get(pipe)
+    if (!cuts) return pipe
+    const added = cuts.reduce((sum, c) => sum + c.lengthMm + mat.kerfMm, 0)
+    return {
+      ...pipe,
+      cuts: [...pipe.cuts, ...cuts],
+      remainingMm: pipe.remainingMm - added + (pipe.cuts.length > 0 ? 0 : mat.kerfMm),
+    }
+  })
+  return { pipes, rest }
+}
+
+/** Pipes that are new or different compared to the previous plan, as `materialId:index` */
+export function changedPipes(previous: CutPlan, current: CutPlan): Set<string> {
+  const changed = new Set<string>()
+  for (const [materialId, pipes] of Object.entries(current)) {
+    const before = new Map<string, number>()
+    for (const p of previous[materialId] ?? []) before.set(pipeKey(p), (before.get(pipeKey(p)) ?? 0) + 1)
+    pipes.forEach((p, i) => {
+      const n = before.get(pipeKey(p)) ?? 0
+      if (n > 0) before.set(pipeKey(p), n - 1)
+      else changed.add(`${materialId}:${i}`)
+    })
+  }
+  return changed
+}
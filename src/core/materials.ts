@@ -0,0 +1,46 @@
+import type { Material, Objective, Pipe, StockVariant } from './types'
+
+export function usableLength(mat: Material, stock: StockVariant): number {
+  return stock.lengthMm - mat.startWasteMm - mat.endWasteMm
+}
+
+/** Longest piece that fits on any of the material's stock variants */
+export function maxUsableLength(mat: Material): number {
+  return Math.max(0, ...mat.stocks.map(s => usableLength(mat, s)))
+}
+
+/** Bar price, derived from the material's price per metre if the variant has none */
+export function barPrice(mat: Material, stock: StockVariant): number | undefined {
+  if (stock.price !== undefined) return stock.price
+  if (mat.pricePerMeter !== undefined) return (mat.pricePerMeter * stock.lengthMm) / 1000
+  return undefined
+}
+
+// Prices are only comparable if every variant has one; otherwise fall back to
+// bar length, which is what the waste objective minimizes anyway.
+export function stockCost(mat: Material, stock: StockVariant, objective: Objective): number {
+  const priced = mat.stocks.every(s => (barPrice(mat, s) ?? 0) > 0)
+  return objective === 'cost' && priced ? barPrice(mat, stock)! : stock.lengthMm
+}
+
+export function stockLimits(mat: Material): Map<string, number> {
+  return new Map(mat.stocks.map(s => [s.id, s.available ?? Infinity]))
+}
+
+// The given pipes have taken their bars from stock and their remnants from
+// the rack; whatever is planned next must do without them.
+export function withoutUsed(mat: Material, pipes: Pipe[]): Material {
+  const usedBars = new Map<string, number>()
+  const usedRemnants = new Set<string>()
+  for (const p of pipes) {
+    if (p.remnantId) usedRemnants.add(p.remnantId)
+    else if (p.stockId) usedBars.set(p.stockId, (usedBars.get(p.stockId) ?? 0) + 1)
+  }
+  return {
+    ...mat,
+    stocks: mat.stocks.map(s => (
+      s.available === undefined ? s : { ...s, available: Math.max(0, s.available - (usedBars.get(s.id) ?? 0)) }
+    )),
+    remnants: mat.remnants.filter(r => !usedRemnants.has(r.id)),
+  }
+}
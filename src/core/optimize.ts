@@ -0,0 +1,256 @@
+import type {
+  CutPlan,
+  Demand,
+  Material,
+  Objective,
+  OptimizeOptions,
+  OptimizeResult,
+  PackingRule,
+  Pipe,
+  ProjectPriority,
+  SolverMode,
+  UnassignedDemand,
+} from './types'
+import { maxUsableLength, stockCost, stockLimits, withoutUsed } from './materials'
+import { bestFitDecreasing, firstFitDecreasing } from './heuristic'
+import type { Packing } from './heuristic'
+import { solveExact } from './exact'
+import { fillRemnants } from './remnants'
+import { splitDemand } from './splitting'
+import { fillLocked, lockedPieceIds } from './locking'
+import { minimizeProjectMix, partitionPieces, separationKey } from './projects'
+import { repeatedPatterns } from './patterns'
+import { atShortest, isTolerant, lengthenCuts, shortestLength } from './tolerance'
+import { compareUrgency, urgencyTiers } from './shortage'
+
+type SeparationKey = ((project: string) => string) | null
+
+const PACKERS: Record<PackingRule, typeof bestFitDecreasing> = {
+  'best-fit': bestFitDecreasing,
+  'first-fit': firstFitDecreasing,
+  'patterns': repeatedPatterns,
+}
+
+export function optimize(
+  materials: Material[],
+  demands: Demand[],
+  options: OptimizeOptions = {},
+): OptimizeResult {
+  const { onProgress } = options
+  const grouped = new Map<string, Demand[]>()
+
+  for (const d of demands) {
+    const list = grouped.get(d.materialId) ?? []
+    list.push(d)
+    grouped.set(d.materialId, list)
+  }
+  for (const [materialId, pipes] of Object.entries(options.locked ?? {})) {
+    if (!grouped.has(materialId) && pipes.length > 0) grouped.set(materialId, [])
+  }
+
+  // A separated plan is planned a second time without separation, so the
+  // caller can show what the separation costs.
+  const key = separationKey(options)
+  const total = grouped.size * (key ? 2 : 1)
+  let done = 0
+  onProgress?.({ done, total, materialId: null })
+  const step = (materialId: string) => onProgress?.({ done: ++done, total, materialId })
+
+  const result = planMaterials(materials, grouped, options, key, step)
+  if (!key) return result
+  return { ...result, unconstrained: planMaterials(materials, grouped, options, null, step).plan }
+}
+
+function planMaterials(
+  materials: Material[],
+  grouped: Map<string, Demand[]>,
+  {
+    mode = 'fast',
+    objective = 'waste',
+    packing = 'best-fit',
+    fillLocked: useLeftovers = false,
+    projectMixing,
+    projectPriorities,
+    locked = {},
+  }: OptimizeOptions,
+  key: SeparationKey,
+  step: (materialId: string) => void,
+): OptimizeResult {
+  const materialMap = new Map(materials.map(m => [m.id, m]))
+  const plan: CutPlan = {}
+  const lowerBounds: Record<string, number> = {}
+  const unassigned: UnassignedDemand[] = []
+
+  for (const [materialId, all] of grouped) {
+    const baseMat = materialMap.get(materialId)
+    if (!baseMat) {
+      step(materialId)
+      continue
+    }
+
+    // Locked pipes stay as they are; only what is not on them gets planned
+    const kept = locked[materialId] ?? []
+    const cutAlready = lockedPieceIds(kept)
+    let mat = withoutUsed(baseMat, kept)
+    const pieces = all.filter(p => !cutAlready.has(p.id))
+
+    const maxUsable = maxUsableLength(mat)
+    const fitting: Demand[] = []
+    for (const p of pieces) {
+      if (shortestLength(p) <= maxUsable) {
+        fitting.push(p)
+        continue
+      }
+      const segments = splitDemand(p, mat)
+      if (segments) fitting.push(...segments.filter(seg => !cutAlready.has(seg.id)))
+      else unassigned.push({ demand: p, reason: 'too-long' })
+    }
+
+    // Each separated part is planned on its own, from the stock the parts
+    // before it left over; the most urgent parts go first.
+    const lockedPipes = [...kept]
+    let pipes: Pipe[] = []
+    let bound = 0
+    const parts = key ? partitionPieces(fitting, key) : [fitting]
+    if (projectPriorities) {
+      const compare = compareUrgency(projectPriorities)
+      const mostUrgent = (part: Demand[]) => part.map(p => p.project).sort(compare)[0]
+      parts.sort((a, b) => compare(mostUrgent(a), mostUrgent(b)))
+    }
+    for (const part of parts) {
+      let rest = part
+      if (useLeftovers) {
+        const partKey = key?.(part[0].project)
+        const open = lockedPipes
+          .map((_, i) => i)
+          .filter(i => !key || lockedPipes[i].cuts.every(c => key(c.project) === partKey))
+        const filled = fillLocked(open.map(i => lockedPipes[i]), rest, mat)
+        open.forEach((i, k) => { lockedPipes[i] = filled.pipes[k] })
+        rest = filled.rest
+      }
+
+      const packed = packByUrgency(rest, mat, mode, objective, packing, projectPriorities)
+      pipes.push(...packed.pipes)
+      bound += packed.bound
+      for (const p of packed.unplaced) unassigned.push({ demand: p, reason: 'no-stock' })
+      mat = withoutUsed(mat, packed.pipes)
+    }
+
+    if (projectMixing === 'minimize') pipes = minimizeProjectMix(pipes, baseMat)
+
+    plan[materialId] = [...lockedPipes, ...pipes]
+    lowerBounds[materialId] = bound + kept.filter(p => !p.remnantId).length
+    step(materialId)
+  }
+
+  return { plan, lowerBounds, unassigned }
+}
+
+// Pieces with a tolerance are also packed at their shortest; if that needs
+// fewer or cheaper bars, they are lengthened again as far as their pipe
+// allows. The bound is taken at the shortest lengths either way.
+function packPieces(
+  pieces: Demand[],
+  mat: Material,
+  mode: SolverMode,
+  objective: Objective,
+  rule: PackingRule,
+): { pipes: Pipe[]; unplaced: Demand[]; bound: number } {
+  const exact = packLengths(pieces, mat, mode, objective, rule)
+  if (!pieces.some(isTolerant)) return exact
+
+  const shortened = packLengths(pieces.map(atShortest), mat, mode, objective, rule)
+  if (!isBetter(shortened, exact, mat, objective)) return { ...exact, bound: shortened.bound }
+  const original = new Map(pieces.map(p => [p.id, p]))
+  return {
+    pipes: shortened.pipes.map(lengthenCuts),
+    unplaced: shortened.unplaced.map(p => original.get(p.id)!),
+    bound: shortened.bound,
+  }
+}
+
+// Remnants first, then new bars. The bound is the proven minimum number of
+// new bars for these pieces.
+function packLengths(
+  pieces: Demand[],
+  mat: Material,
+  mode: SolverMode,
+  objective: Objective,
+  rule: PackingRule,
+): { pipes: Pipe[]; unplaced: Demand[]; bound: number } {
+  const remnants = fillRemnants(pieces, mat)
+  let packing: Packing = PACKERS[rule](remnants.rest, mat, objective, stockLimits(mat))
+  let bound = continuousBound(remnants.rest, mat)
+  const single = mat.stocks.length === 1
+
+  const proven = single && packing.unplaced.length === 0 && packing.pipes.length <= bound
+  if (mode === 'exact' && !proven) {
+    const exact = solveExact(remnants.rest, mat, objective)
+    if (single) {
+      const cost = stockCost(mat, mat.stocks[0], objective)
+      bound = Math.max(bound, Math.ceil(exact.costBound / cost - 1e-6))
+    }
+    if (isBetter(exact, packing, mat, objective)) packing = exact
+  }
+
+  return { pipes: [...remnants.pipes, ...packing.pipes], unplaced: packing.unplaced, bound }
+}
+
+// When the stock cannot take every piece, the most urgent projects get their
+// bars first: as many tiers as fit are packed together, each further tier
+// only onto the leftovers and the bars still in stock.
+function packByUrgency(
+  pieces: Demand[],
+  mat: Material,
+  mode: SolverMode,
+  objective: Objective,
+  rule: PackingRule,
+  priorities: Record<string, ProjectPriority> | undefined,
+): { pipes: Pipe[]; unplaced: Demand[]; bound: number } {
+  const all = packPieces(pieces, mat, mode, objective, rule)
+  if (all.unplaced.length === 0 || !priorities) return all
+  const tiers = urgencyTiers(pieces, priorities)
+  if (tiers.length < 2) return all
+
+  let served = 0
+  let packed: { pipes: Pipe[]; unplaced: Demand[]; bound: number } = { pipes: [], unplaced: [], bound: 0 }
+  for (let n = 1; n < tiers.length; n++) {
+    const attempt = packPieces(tiers.slice(0, n).flat(), mat, mode, objective, rule)
+    if (attempt.unplaced.length > 0) break
+    packed = attempt
+    served = n
+  }
+
+  let pipes = packed.pipes
+  let left = withoutUsed(mat, pipes)
+  const unplaced: Demand[] = []
+  for (const tier of tiers.slice(served)) {
+    const filled = fillLocked(pipes, tier, left)
+    const more = packPieces(filled.rest, left, mode, objective, rule)
+    pipes = [...filled.pipes, ...more.pipes]
+    unplaced.push(...more.unplaced)
+    left = withoutUsed(left, more.pipes)
+  }
+  return { pipes, unplaced, bound: packed.bound }
+}
+
+// Total material needed divided by the capacity of the longest bar, rounded up.
+function continuousBound(pieces: Demand[], mat: Material): number {
+  const total = pieces.reduce((sum, p) => sum + p.lengthMm + mat.kerfMm, 0)
+  return Math.ceil(total / (maxUsableLength(mat) + mat.kerfMm) - 1e-9)
+}
+
+function packingCost(packing: Packing, mat: Material, objective: Objective): number {
+  const stocks = new Map(mat.stocks.map(s => [s.id, s]))
+  return packing.pipes
+    .filter(p => p.stockId)
+    .reduce((sum, p) => sum + stockCost(mat, stocks.get(p.stockId!)!, objective), 0)
+}
+
+function isBetter(a: Packing, b: Packing, mat: Material, objective: Objective): boolean {
+  if (a.unplaced.length !== b.unplaced.length) return a.unplaced.length < b.unplaced.length
+  const costA = packingCost(a, mat, objective)
+  const costB = packingCost(b, mat, objective)
+  if (Math.abs(costA - costB) > 1e-9) return costA < costB
+  return a.pipes.length < b.pipes.length
+}
@@ -0,0 +1,110 @@
+import type { Demand, Material, Objective, Pipe } from './types'
+import { stockCost, usableLength } from './materials'
+import { bestFitDecreasing } from './heuristic'
+import type { Packing } from './heuristic'
+import { solveKnapsack } from './knapsack'
+
+// Fill a pattern may lose, as share of the bar, if it can be cut more often
+const REPEAT_TOLERANCE = 0.03
+
+// Sequential pattern generation: take a well-filled pattern that can be cut
+// many times, cut it as often as the pieces allow, repeat on the rest. Fewer
+// distinct patterns mean fewer saw set-ups, and identical bars can be cut as
+// a bundle. Pieces no pattern takes go to best-fit decreasing. `limits` (bars
+// left per stock id) is consumed.
+export function repeatedPatterns(
+  pieces: Demand[],
+  mat: Material,
+  objective: Objective,
+  limits: Map<string, number>,
+): Packing {
+  const byLength = new Map<number, Demand[]>()
+  for (const p of pieces) {
+    const list = byLength.get(p.lengthMm) ?? []
+    list.push(p)
+    byLength.set(p.lengthMm, list)
+  }
+  const groups = [...byLength.entries()].sort((a, b) => b[0] - a[0])
+  const lengths = groups.map(([len]) => len)
+  const weights = lengths.map(len => len + mat.kerfMm)
+  const counts = groups.map(([, list]) => list.length)
+  const pipes: Pipe[] = []
+
+  // Every pattern starts with the longest piece left, as in first-fit
+  // decreasing; otherwise the long pieces end up alone on a bar at the end.
+  for (let longest = 0; longest < groups.length;) {
+    if (counts[longest] === 0) {
+      longest++
+      continue
+    }
+    let best: { pattern: number[]; stock: number; times: number; score: number } | null = null
+
+    for (const [k, stock] of mat.stocks.entries()) {
+      const left = limits.get(stock.id) ?? 0
+      const capacity = usableLength(mat, stock) + mat.kerfMm
+      if (left <= 0 || weights[longest] > capacity) continue
+      const fill = (times: number) => {
+        const bounds = counts.map((c, i) => Math.floor((i === longest ? c - times : c) / times))
+        const rest = solveKnapsack(weights, lengths, bounds, capacity - weights[longest])
+        const pattern = [...rest.pattern]
+        pattern[longest]++
+        return { pattern, value: rest.value + lengths[longest] }
+      }
+
+      // The largest repeat count whose pattern is still about as full as the
+      // best single one
+      const single = fill(1)
+      let choice = single
+      const target = single.value - REPEAT_TOLERANCE * capacity
+      for (const times of [...new Set(counts)].filter(c => c > 1 && c <= counts[longest]).sort((a, b) => b - a)) {
+        const repeated = fill(times)
+        if (repeated.value >= target) {
+          choice = repeated
+          break
+        }
+      }
+
+      const times = Math.min(left, maxRepeats(choice.pattern, counts))
+      const score = choice.value / stockCost(mat, stock, objective)
+      if (!best || score > best.score + 1e-9 || (Math.abs(score - best.score) <= 1e-9 && times > best.times)) {
+        best = { pattern: choice.pattern, stock: k, times, score }
+      }
+    }
+
+    // No bar left for the longest pieces; best-fit decreasing reports them
+    if (!best) {
+      longest++
+      continue
+    }
+    const { pattern, times } = best
+    const stock = mat.stocks[best.stock]
+    const usable = usableLength(mat, stock)
+    limits.set(stock.id, limits.get(stock.id)! - times)
+    for (let t = 0; t < times; t++) {
+      const cuts: Demand[] = []
+      pattern.forEach((n, i) => {
+        for (let c = 0; c < n; c++) cuts.push(groups[i][1].pop()!)
+        counts[i] -= n
+      })
+      const cutSum = cuts.reduce((sum, c) => sum + c.lengthMm, 0)
+      pipes.push({
+        cuts,
+        remainingMm: usable - cutSum - mat.kerfMm * (cuts.length - 1),
+        stockId: stock.id,
+        stockLengthMm: stock.lengthMm,
+        usableMm: usable,
+      })
+    }
+  }
+
+  const rest = bestFitDecreasing(groups.flatMap(([, list]) => list), mat, objective, limits)
+  return { pipes: [...pipes, ...rest.pipes], unplaced: rest.unplaced }
+}
+
+function maxRepeats(pattern: number[], counts: number[]): number {
+  let times = Infinity
+  pattern.forEach((n, i) => {
+    if (n > 0) times = Math.min(times, Math.floor(counts[i] / n))
+  })
+  return times === Infinity ? 0 : times
+}
@@ -0,0 +1,144 @@
+import type { CutPlan, Demand, Material, Pipe, SolverSettings } from './types'
+
+const MAX_PASSES = 50
+
+/**
+ * Which pieces may share a pipe: pieces with the same key may, others may
+ * not. Null when projects may be mixed freely.
+ */
+export function separationKey(settings: Partial<SolverSettings>): ((project: string) => string) | null {
+  switch (settings.projectMixing) {
+    case 'separate':
+      return project => project
+    case 'groups': {
+      const groups = settings.projectGroups ?? {}
+      // Prefixes keep a group named like a project apart from that project
+      return project => (groups[project]?.trim() ? `g:${groups[project].trim()}` : `p:${project}`)
+    }
+    default:
+      return null
+  }
+}
+
+/** Pieces per separation key, in order of first appearance */
+export function partitionPieces(pieces: Demand[], key: (project: string) => string): Demand[][] {
+  const parts = new Map<string, Demand[]>()
+  for (const p of pieces) {
+    const k = key(p.project)
+    const list = parts.get(k) ?? []
+    list.push(p)
+    parts.set(k, list)
+  }
+  return [...parts.values()]
+}
+
+/** Sum over all pipes of the number of different projects on them */
+export function projectMix(pipes: Pipe[]): number {
+  return pipes.reduce((sum, p) => sum + new Set(p.cuts.map(c => c.project)).size, 0)
+}
+
+export interface PlanUsage {
+  /** New bars taken from stock */
+  bars: number
+  /** Length of those bars */
+  stockMm: number
+  /** Different projects per pipe, on average */
+  projectsPerPipe: number
+}
+
+export function planUsage(plan: CutPlan): PlanUsage {
+  const pipes = Object.values(plan).flat()
+  const bars = pipes.filter(p => !p.remnantId)
+  return {
+    bars: bars.length,
+    stockMm: bars.reduce((sum, p) => sum + p.stockLengthMm, 0),
+    projectsPerPipe: pipes.length > 0 ? projectMix(pipes) / pipes.length : 0,
+  }
+}
+
+// Local search that only swaps pieces between pipes or moves a piece onto
+// another pipe's leftover, so no pipe gets longer than its bar and no new bar
+// is needed. Pipes emptied by a move are dropped.
+export function minimizeProjectMix(pipes: Pipe[], mat: Material): Pipe[] {
+  const work = pipes.map(p => ({ ...p, cuts: [...p.cuts] }))
+  const counts = work.map(p => {
+    const m = new Map<string, number>()
+    for (const c of p.cuts) m.set(c.project, (m.get(c.project) ?? 0) + 1)
+    return m
+  })
+
+  // Change in the number of projects on a pipe when `out` leaves and `into` arrives
+  const delta = (m: Map<string, number>, out: string | null, into: string | null) => {
+    if (out === into) return 0
+    let d = 0
+    if (out !== null && m.get(out) === 1) d--
+    if (into !== null && !m.has(into)) d++
+    return d
+  }
+  const remove = (m: Map<string, number>, project: string) => {
+    const n = m.get(project)! - 1
+    if (n === 0) m.delete(project)
+    else m.set(project, n)
+  }
+  const add = (m: Map<string, number>, project: string) => m.set(project, (m.get(project) ?? 0) + 1)
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false
+
+    for (let a = 0; a < work.length; a++) {
+      for (let i = 0; i < work[a].cuts.length; i++) {
+        const x = work[a].cuts[i]
+        // A pipe with one project and several pieces cannot gain anything
+        if (counts[a].size === 1 && work[a].cuts.length > 1) continue
+
+        for (let b = 0; b < work.length; b++) {
+          if (b === a || work[b].cuts.length === 0) continue
+
+          // Move x onto b's leftover
+          if (work[b].remainingMm >= x.lengthMm + mat.kerfMm) {
+            const gain = -(delta(counts[a], x.project, null) + delta(counts[b], null, x.project))
+            if (gain > 0) {
+              work[a].cuts.splice(i, 1)
+              work[a].remainingMm += x.lengthMm + (work[a].cuts.length > 0 ? mat.kerfMm : 0)
+              if (work[a].cuts.length === 0) work[a].remainingMm = work[a].usableMm
+              work[b].cuts.push(x)
+              work[b].remainingMm -= x.lengthMm + mat.kerfMm
+              remove(counts[a], x.project)
+              add(counts[b], x.project)
+              improved = true
+              i--
+              break
+            }
+          }
+
+          // Swap x with a piece y of another project on b
+          let swapped = false
+          for (let j = 0; j < work[b].cuts.length; j++) {
+            const y = work[b].cuts[j]
+            if (y.project === x.project) continue
+            if (work[a].remainingMm + x.lengthMm - y.lengthMm < 0) continue
+            if (work[b].remainingMm + y.lengthMm - x.lengthMm < 0) continue
+            const gain = -(delta(counts[a], x.project, y.project) + delta(counts[b], y.project, x.project))
+            if (gain <= 0) continue
+            work[a].cuts[i] = y
+            work[b].cuts[j] = x
+            work[a].remainingMm += x.lengthMm - y.lengthMm
+            work[b].remainingMm += y.lengthMm - x.lengthMm
+            remove(counts[a], x.project)
+            add(counts[a], y.project)
+            remove(counts[b], y.project)
+            add(counts[b], x.project)
+            improved = true
+            swapped = true
+            break
+          }
+          if (swapped) break
+        }
+      }
+    }
+
+    if (!improved) break
+  }
+
+  return work.filter(p => p.cuts.length > 0)
+}
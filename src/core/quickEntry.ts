@@ -0,0 +1,191 @@
+import type { Demand, Material } from './types'
+import { parseDecimal, parseLength, parseUnit } from './units'
+import type { LengthUnit } from './units'
+import { t } from './i18n'
+
+// One demand per line, dictated from a drawing: "3x 2500 DN50 EG Bad" or
+// "2.35m x4 @OG Küche". Count, length, tolerance and material may come in any
+// order; the remaining words are the project, everything after "@" too.
+// Material and project carry over to the next line when left out.
+
+export interface QuickEntryDefaults {
+  project: string
+  materialId: string
+  /** For lengths without a unit */
+  unit: LengthUnit
+}
+
+export interface QuickEntryLine {
+  /** 1-based line in the text */
+  line: number
+  count: number
+  lengthMm: number
+  minLengthMm?: number
+  materialId: string | null
+  project: string
+  errors: string[]
+}
+
+const COUNT = /^(?:(\d+)\s*[x×*]|[x×*]\s*(\d+))$/i
+const METRIC = /^(\d+(?:[.,]\d+)*)(mm|cm|m)$/i
+const TOLERANCE = /^[-−–]\d/
+// Imperial lengths may contain spaces (7' 3-5/8", 3 5/8"); they are kept
+// together as one word, anything else splits at whitespace.
+const NUMBER = String.raw`\d+(?:[.,]\d+)?`
+const FRACTION = String.raw`\d+\s*\/\s*\d+`
+const INCHES = String.raw`(?:${NUMBER}(?:(?:\s+|\s*-\s*)${FRACTION})?|${FRACTION})`
+const INCH_MARK = String.raw`(?:"|″|in\b\.?)`
+const IMPERIAL = String.raw`${NUMBER}\s*(?:'|′|ft\b\.?)(?:\s*${INCHES}\s*${INCH_MARK}?)?|${INCHES}\s*${INCH_MARK}`
+const WORD = new RegExp(String.raw`(?:${IMPERIAL})(?=\s|$)|\S+`, 'gi')
+// Material names that run over several words are tried up to this length
+const MAX_NAME_WORDS = 4
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, '')
+}
+
+function parseToken(token: string, unit: LengthUnit): number {
+  const metric = METRIC.exec(token)
+  if (metric) return parseLength(metric[1], parseUnit(metric[2])!)
+  return parseLength(token, unit)
+}
+
+/** Longest run of words from `start` that names a material, spaces ignored */
+function materialAt(words: string[], start: number, materials: Material[]): { material: Material; words: number } | null {
+  for (let n = Math.min(MAX_NAME_WORDS, words.length - start); n >= 1; n--) {
+    const key = compact(words.slice(start, start + n).join(''))
+    const material = materials.find(m => compact(m.name) === key)
+    if (material) return { material, words: n }
+  }
+  return null
+}
+
+export function parseQuickLine(text: string, materials: Material[], defaults: QuickEntryDefaults): Omit<QuickEntryLine, 'line'> {
+  const errors: string[] = []
+  const at = text.indexOf('@')
+  const words = (at >= 0 ? text.slice(0, at) : text).match(WORD) ?? []
+  const projectWords: string[] = []
+  let count: number | undefined
+  let lengthMm: number | undefined
+  let tolerance: string | undefined
+  let material: Material | undefined
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]
+    const named = material ? null : materialAt(words, i, materials)
+    if (named) {
+      material = named.material
+      i += named.words - 1
+      continue
+    }
+    const countMatch = COUNT.exec(word)
+    if (countMatch) {
+      if (count !== undefined) errors.push(t('quick.countTwice'))
+      count = parseDecimal(countMatch[1] ?? countMatch[2])
+      continue
+    }
+    if (TOLERANCE.test(word)) {
+      tolerance = word
+      continue
+    }
+    const length = parseToken(word, defaults.unit)
+    // A number after the length and a project word belongs to the project ("Whg 3")
+    if (length > 0 && !(lengthMm !== undefined && projectWords.length > 0)) {
+      if (lengthMm !== undefined) errors.push(t('quick.lengthTwice', { word }))
+      lengthMm = length
+      continue
+    }
+    projectWords.push(word)
+  }
+
+  const project = (at >= 0 ? text.slice(at + 1) : projectWords.join(' ')).trim() || defaults.project.trim()
+  if (at >= 0 && projectWords.length > 0) errors.push(t('quick.unknownWords', { words: projectWords.join(' ') }))
+  if (!project) errors.push(t('import.projectMissing'))
+
+  const materialId = material?.id ?? materials.find(m => m.id === defaults.materialId)?.id ?? null
+  if (!materialId) errors.push(t('import.materialMissing'))
+
+  if (lengthMm === undefined) errors.push(t('quick.lengthMissing'))
+  let minLengthMm: number | undefined
+  if (tolerance !== undefined && lengthMm !== undefined) {
+    const min = lengthMm - parseToken(tolerance.slice(1), defaults.unit)
+    if (min > 0 && min <= lengthMm) minLengthMm = min < lengthMm ? min : undefined
+    else errors.push(t('quick.toleranceInvalid', { word: tolerance }))
+  }
+
+  const pieces = count ?? 1
+  if (!Number.isInteger(pieces) || pieces < 1) errors.push(t('import.countInvalid'))
+
+  return {
+    count: pieces,
+    lengthMm: lengthMm ?? NaN,
+    ...(minLengthMm !== undefined ? { minLengthMm } : {}),
+    materialId,
+    project,
+    errors,
+  }
+}
+
+/** Every non-empty line; a line's material and project become the defaults for the next */
+export function parseQuickEntry(text: string, materials: Material[], defaults: QuickEntryDefaults): QuickEntryLine[] {
+  const lines: QuickEntryLine[] = []
+  let current = defaults
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (raw.trim() === '') return
+    const parsed = parseQuickLine(raw, materials, current)
+    lines.push({ line: i + 1, ...parsed })
+    current = {
+      ...current,
+      project: parsed.project || current.project,
+      materialId: parsed.materialId ?? current.materialId,
+    }
+  })
+  return lines
+}
+
+export function quickEntryDemands(line: QuickEntryLine, nextId: () => string): Demand[] {
+  return Array.from({ length: line.count }, (): Demand => ({
+    id: nextId(),
+    project: line.project,
+    materialId: line.materialId!,
+    lengthMm: line.lengthMm,
+    ...(line.minLengthMm !== undefined ? { minLengthMm: line.minLengthMm } : {}),
+  }))
+}
+
+// ── Completion ─────────────────────────────────────────────────────
+
+export interface QuickCompletion {
+  /** Characters before the caret that the suggestion replaces */
+  replace: number
+  suggestions: string[]
+}
+
+/**
+ * Material and project names that continue what is typed before the caret.
+ * After "@" only projects are offered; elsewhere the last few words are
+ * matched so that names with spaces complete too.
+ */
+export function quickCompletions(before: string, materials: Material[], projects: string[]): QuickCompletion {
+  const line = before.slice(before.lastIndexOf('\n') + 1)
+  const at = line.lastIndexOf('@')
+  if (at >= 0) {
+    const fragment = line.slice(at + 1)
+    const key = fragment.trimStart().toLowerCase()
+    return {
+      replace: fragment.length,
+      suggestions: projects.filter(p => p.toLowerCase().startsWith(key) && p.toLowerCase() !== key),
+    }
+  }
+
+  if (/\s$/.test(line)) return { replace: 0, suggestions: [] }
+  const starts = [...line.matchAll(/\S+/g)].map(m => m.index!)
+  const names = [...materials.map(m => m.name), ...projects]
+  for (let n = Math.min(MAX_NAME_WORDS, starts.length); n >= 1; n--) {
+    const start = starts[starts.length - n]
+    const key = compact(line.slice(start))
+    const suggestions = [...new Set(names.filter(name => compact(name).startsWith(key) && compact(name) !== key))]
+    if (suggestions.length > 0) return { replace: line.length - start, suggestions }
+  }
+  return { replace: 0, suggestions: [] }
+}
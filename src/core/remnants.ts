@@ -0,0 +1,81 @@
+import type { Demand, Material, Pipe } from './types'
+import { solveKnapsack } from './knapsack'
+
+export interface RemnantFill {
+  pipes: Pipe[]
+  /** Pieces still to be cut from new bars */
+  rest: Demand[]
+}
+
+interface SpaceFill<T> {
+  filled: { space: T; cuts: Demand[] }[]
+  rest: Demand[]
+}
+
+// Fills the spaces in the given order, each with the subset of pieces that
+// uses the most of it. `capacity` is in knapsack terms: every piece weighs
+// its length plus one kerf.
+export function fillSpaces<T>(
+  pieces: Demand[],
+  mat: Material,
+  spaces: T[],
+  capacity: (space: T) => number,
+): SpaceFill<T> {
+  const byLength = new Map<number, Demand[]>()
+  for (const p of pieces) {
+    const list = byLength.get(p.lengthMm) ?? []
+    list.push(p)
+    byLength.set(p.lengthMm, list)
+  }
+  const groups = [...byLength.entries()].sort((a, b) => b[0] - a[0])
+  const lengths = groups.map(([len]) => len)
+  const weights = lengths.map(len => len + mat.kerfMm)
+  const filled: SpaceFill<T>['filled'] = []
+
+  for (const space of spaces) {
+    const counts = groups.map(([, list]) => list.length)
+    if (!counts.some(n => n > 0)) break
+    const { pattern } = solveKnapsack(weights, lengths, counts, capacity(space))
+    const cuts: Demand[] = []
+    pattern.forEach((n, i) => {
+      for (let c = 0; c < n; c++) cuts.push(groups[i][1].pop()!)
+    })
+    if (cuts.length > 0) filled.push({ space, cuts })
+  }
+
+  return { filled, rest: groups.flatMap(([, list]) => list) }
+}
+
+// Fills remnants shortest first, so long offcuts stay available for long
+// pieces.
+export function fillRemnants(pieces: Demand[], mat: Material): RemnantFill {
+  const usable = (lengthMm: number) => lengthMm - mat.startWasteMm - mat.endWasteMm
+  const remnants = [...mat.remnants]
+    .sort((a, b) => a.lengthMm - b.lengthMm)
+    .filter(r => usable(r.lengthMm) > 0)
+  const { filled, rest } = fillSpaces(pieces, mat, remnants, r => usable(r.lengthMm) + mat.kerfMm)
+
+  const pipes = filled.map(({ space: remnant, cuts }): Pipe => {
+    const cutSum = cuts.reduce((sum, c) => sum + c.lengthMm, 0)
+    return {
+      cuts,
+      remainingMm: usable(remnant.lengthMm) - cutSum - mat.kerfMm * (cuts.length - 1),
+      remnantId: remnant.id,
+      stockLengthMm: remnant.lengthMm,
+      usableMm: usable(remnant.lengthMm),
+    }
+  })
+  return { pipes, rest }
+}
+
+/** Physical piece left after cutting: the unused part plus the end allowance */
+export function offcutLength(pipe: Pipe, mat: Material): number {
+  return pipe.remainingMm + mat.endWasteMm
+}
+
+/** Everything of the bar that is neither a piece nor an offcut going back on the rack */
+export function scrapLength(pipe: Pipe, mat: Material, minRemnantMm: number): number {
+  const cutSum = pipe.cuts.reduce((sum, c) => sum + c.lengthMm, 0)
+  const offcut = offcutLength(pipe, mat)
+  return pipe.stockLengthMm - cutSum - (offcut >= minRemnantMm ? offcut : 0)
+}
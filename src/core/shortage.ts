@@ -0,0 +1,63 @@
+import type { Demand, Material, ProjectPriority, UnassignedDemand } from './types'
+import { barPrice, stockLimits } from './materials'
+import { bestFitDecreasing } from './heuristic'
+import type { PurchaseLine } from './summary'
+
+// Sorts after every real priority and date
+const NO_PRIORITY = Number.MAX_SAFE_INTEGER
+const NO_DUE_DATE = '9999-12-31'
+
+function urgency(priorities: Record<string, ProjectPriority>, project: string): [number, string] {
+  const entry = priorities[project]
+  return [entry?.priority ?? NO_PRIORITY, entry?.dueDate || NO_DUE_DATE]
+}
+
+/** Compares projects by priority, then by due date; most urgent first */
+export function compareUrgency(priorities: Record<string, ProjectPriority>): (a: string, b: string) => number {
+  return (a, b) => {
+    const [pa, da] = urgency(priorities, a)
+    const [pb, db] = urgency(priorities, b)
+    return pa !== pb ? pa - pb : da.localeCompare(db)
+  }
+}
+
+/** Pieces of equally urgent projects together, most urgent first */
+export function urgencyTiers(pieces: Demand[], priorities: Record<string, ProjectPriority>): Demand[][] {
+  const tiers = new Map<string, Demand[]>()
+  for (const p of pieces) {
+    const key = urgency(priorities, p.project).join('|')
+    const list = tiers.get(key) ?? []
+    list.push(p)
+    tiers.set(key, list)
+  }
+  const compare = compareUrgency(priorities)
+  return [...tiers.values()].sort((a, b) => compare(a[0].project, b[0].project))
+}
+
+// Bars that would have to be ordered for the pieces the stock on hand could
+// not cover, packed as if every stock variant were unlimited. The cheapest
+// bars are chosen where all variants have a price, the shortest otherwise.
+export function orderShortfall(unassigned: UnassignedDemand[], materials: Material[]): PurchaseLine[] {
+  const lines: PurchaseLine[] = []
+  for (const mat of materials) {
+    const pieces = unassigned.filter(u => u.reason === 'no-stock' && u.demand.materialId === mat.id).map(u => u.demand)
+    if (pieces.length === 0) continue
+
+    const unlimited: Material = { ...mat, stocks: mat.stocks.map(s => ({ ...s, available: undefined })), remnants: [] }
+    const { pipes } = bestFitDecreasing(pieces, unlimited, 'cost', stockLimits(unlimited))
+    for (const stock of mat.stocks) {
+      const count = pipes.filter(p => p.stockId === stock.id).length
+      if (count > 0) {
+        lines.push({
+          materialId: mat.id,
+          material: mat.name,
+          stockId: stock.id,
+          lengthMm: stock.lengthMm,
+          count,
+          price: barPrice(mat, stock),
+        })
+      }
+    }
+  }
+  return lines
+}
@@ -0,0 +1,46 @@
+import type { Demand, Material } from './types'
+import { maxUsableLength } from './materials'
+
+function round(mm: number): number {
+  return Math.round(mm * 10) / 10
+}
+
+// Splits a piece that fits no bar into the fewest segments that do. Every
+// joint adds `jointAllowanceMm` to the material needed. All but the last
+// segment take a full bar so the leftover part can share a bar with other
+// pieces; if that leaves the last one below the minimum, it borrows from its
+// neighbour, and failing that all segments are made equal.
+// Returns null when the material does not split or no split is possible.
+export function splitDemand(demand: Demand, mat: Material): Demand[] | null {
+  if (!mat.splitting) return null
+  const { jointAllowanceMm: joint, minSegmentMm: minSegment } = mat.splitting
+  const max = maxUsableLength(mat)
+  if (max <= joint || max < minSegment) return null
+
+  const count = Math.ceil((demand.lengthMm - joint) / (max - joint) - 1e-9)
+  const total = demand.lengthMm + (count - 1) * joint
+
+  let lengths: number[] = new Array(count - 1).fill(max)
+  const last = Math.min(max, round(total - max * (count - 1)))
+  if (last < minSegment) {
+    lengths[count - 2] = round(max - (minSegment - last))
+    lengths.push(minSegment)
+  } else {
+    lengths.push(last)
+  }
+
+  if (lengths.some(len => len < minSegment)) {
+    const equal = Math.floor((total / count) * 10) / 10
+    if (equal < minSegment) return null
+    lengths = new Array(count - 1).fill(equal)
+    lengths.push(round(total - equal * (count - 1)))
+  }
+
+  return lengths.map((lengthMm, i) => ({
+    ...demand,
+    id: `${demand.id}.${i + 1}`,
+    lengthMm,
+    minLengthMm: undefined,
+    segment: { parentId: demand.id, index: i + 1, count, parentLengthMm: demand.lengthMm },
+  }))
+}
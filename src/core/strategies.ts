@@ -0,0 +1,92 @@
+import type { Material, OptimizeResult, SolverSettings } from './types'
+import { scrapLength } from './remnants'
+import { planCosts } from './costs'
+
+export type StrategyId = 'best-fit' | 'first-fit' | 'exact' | 'separate' | 'patterns'
+
+export interface Strategy {
+  id: StrategyId
+  /** Settings that make the optimizer follow this strategy */
+  settings: Pick<SolverSettings, 'mode' | 'packing' | 'projectMixing'>
+}
+
+export const STRATEGIES: Strategy[] = [
+  { id: 'best-fit', settings: { mode: 'fast', packing: 'best-fit', projectMixing: 'free' } },
+  { id: 'first-fit', settings: { mode: 'fast', packing: 'first-fit', projectMixing: 'free' } },
+  { id: 'exact', settings: { mode: 'exact', packing: 'best-fit', projectMixing: 'free' } },
+  { id: 'separate', settings: { mode: 'fast', packing: 'best-fit', projectMixing: 'separate' } },
+  { id: 'patterns', settings: { mode: 'fast', packing: 'patterns', projectMixing: 'free' } },
+]
+
+export function strategySettings(base: SolverSettings, strategy: Strategy): SolverSettings {
+  return { ...base, ...strategy.settings }
+}
+
+/** The strategy the settings amount to, if any */
+export function activeStrategy(settings: SolverSettings): StrategyId | null {
+  const mixing = settings.projectMixing ?? 'free'
+  const packing = settings.packing ?? 'best-fit'
+  return STRATEGIES.find(s => (
+    s.settings.mode === settings.mode && s.settings.packing === packing && s.settings.projectMixing === mixing
+  ))?.id ?? null
+}
+
+export interface PlanMetrics {
+  bars: number
+  remnantsUsed: number
+  /** Cut length over stock length, in percent */
+  efficiency: number
+  /** Stock that is neither a piece nor a reusable offcut */
+  scrapMm: number
+  /** Distinct bar + cuts combinations */
+  patterns: number
+  /** Saw cuts if identical bars are cut as a bundle: one per piece and pattern */
+  sawPasses: number
+  /** Null if a bar has no price */
+  cost: number | null
+  unassigned: number
+}
+
+export function planMetrics(result: OptimizeResult, materials: Material[], minRemnantMm: number): PlanMetrics {
+  const materialMap = new Map(materials.map(m => [m.id, m]))
+  const metrics: PlanMetrics = {
+    bars: 0,
+    remnantsUsed: 0,
+    efficiency: 0,
+    scrapMm: 0,
+    patterns: 0,
+    sawPasses: 0,
+    cost: null,
+    unassigned: result.unassigned.length,
+  }
+  let stockMm = 0
+  let usedMm = 0
+  const patterns = new Map<string, number>()
+
+  for (const [materialId, pipes] of Object.entries(result.plan)) {
+    const mat = materialMap.get(materialId)
+    if (!mat) continue
+    for (const pipe of pipes) {
+      if (pipe.remnantId) metrics.remnantsUsed++
+      else metrics.bars++
+      const cutSum = pipe.cuts.reduce((sum, c) => sum + c.lengthMm, 0)
+      stockMm += pipe.stockLengthMm
+      usedMm += cutSum
+      metrics.scrapMm += scrapLength(pipe, mat, minRemnantMm)
+      const lengths = pipe.cuts.map(c => c.lengthMm).sort((a, b) => b - a)
+      patterns.set(`${materialId}|${pipe.stockLengthMm}|${lengths.join(',')}`, lengths.length)
+    }
+  }
+
+  metrics.efficiency = stockMm > 0 ? (usedMm / stockMm) * 100 : 0
+  metrics.patterns = patterns.size
+  metrics.sawPasses = [...patterns.values()].reduce((sum, n) => sum + n, 0)
+  const costs = planCosts(result.plan, materials, minRemnantMm)
+  if (costs.complete && costs.total > 0) metrics.cost = costs.total
+  return metrics
+}
+
+export interface StrategyResult {
+  id: StrategyId
+  result: OptimizeResult
+}
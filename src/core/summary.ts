@@ -0,0 +1,99 @@
+import type { CutPlan, Material } from './types'
+import { barPrice } from './materials'
+import { scrapLength } from './remnants'
+import { weightPerMeter } from './catalog'
+import { formatCutLength } from './format'
+
+export interface PurchaseLine {
+  materialId: string
+  material: string
+  stockId: string
+  lengthMm: number
+  count: number
+  /** Per bar; undefined if the bar has no price */
+  price?: number
+}
+
+export interface PatternLine {
+  materialId: string
+  material: string
+  lengthMm: number
+  /** Cut lengths, e.g. "2.5 m + 1.2 m", with the requested length of shortened pieces */
+  pattern: string
+  count: number
+}
+
+/** New bars to buy per material and stock variant */
+export function purchaseList(plan: CutPlan, materials: Material[]): PurchaseLine[] {
+  const lines: PurchaseLine[] = []
+  for (const mat of materials) {
+    const pipes = plan[mat.id] ?? []
+    for (const stock of mat.stocks) {
+      const count = pipes.filter(p => p.stockId === stock.id).length
+      if (count > 0) {
+        lines.push({
+          materialId: mat.id,
+          material: mat.name,
+          stockId: stock.id,
+          lengthMm: stock.lengthMm,
+          count,
+          price: barPrice(mat, stock),
+        })
+      }
+    }
+  }
+  return lines
+}
+
+export interface WeightLine {
+  materialId: string
+  material: string
+  /** New bars to buy */
+  orderKg: number
+  /** Waste that does not go back on the rack */
+  scrapKg: number
+}
+
+/** Weight to order and to scrap per material; materials without a known weight are left out */
+export function planWeights(plan: CutPlan, materials: Material[], minRemnantMm: number): WeightLine[] {
+  const lines: WeightLine[] = []
+  for (const mat of materials) {
+    const kgPerMeter = weightPerMeter(mat.pipe)
+    const pipes = plan[mat.id] ?? []
+    if (kgPerMeter === undefined || pipes.length === 0) continue
+    const orderMm = pipes.filter(p => !p.remnantId).reduce((sum, p) => sum + p.stockLengthMm, 0)
+    const scrapMm = pipes.reduce((sum, p) => sum + scrapLength(p, mat, minRemnantMm), 0)
+    lines.push({
+      materialId: mat.id,
+      material: mat.name,
+      orderKg: (orderMm / 1000) * kgPerMeter,
+      scrapKg: (scrapMm / 1000) * kgPerMeter,
+    })
+  }
+  return lines
+}
+
+/** Null if a bar has no price */
+export function purchaseTotal(lines: PurchaseLine[]): number | null {
+  return lines.every(l => l.price !== undefined)
+    ? lines.reduce((sum, l) => sum + l.count * l.price!, 0)
+    : null
+}
+
+/** Pipes with the same bar and the same cuts, counted together */
+export function cutPatterns(plan: CutPlan, materials: Material[]): PatternLine[] {
+  const lines: PatternLine[] = []
+  for (const mat of materials) {
+    const patterns = new Map<string, PatternLine>()
+    for (const pipe of plan[mat.id] ?? []) {
+      const pattern = pipe.cuts.map(c => formatCutLength(c)).join(' + ')
+      // Remnants have no stock id; tell them apart by length
+      const key = `${pipe.remnantId ? `r${pipe.stockLengthMm}` : pipe.stockId}|${pattern}`
+      const line = patterns.get(key) ?? { materialId: mat.id, material: mat.name, lengthMm: pipe.stockLengthMm, pattern, count: 0 }
+      line.count++
+      patterns.set(key, line)
+    }
+    lines.push(...patterns.values())
+  }
+  return lines
+}
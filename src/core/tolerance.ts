@@ -0,0 +1,46 @@
+import type { Demand, Pipe } from './types'
+import { parseLength } from './units'
+import type { LengthUnit } from './units'
+
+/** Shortest length the piece may be cut to */
+export function shortestLength(demand: Pick<Demand, 'lengthMm' | 'minLengthMm'>): number {
+  return demand.minLengthMm ?? demand.lengthMm
+}
+
+export function isTolerant(demand: Demand): boolean {
+  return demand.minLengthMm !== undefined && demand.minLengthMm < demand.lengthMm
+}
+
+/** The piece cut as short as it may be */
+export function atShortest(demand: Demand): Demand {
+  if (!isTolerant(demand)) return demand
+  return { ...demand, lengthMm: demand.minLengthMm!, requestedLengthMm: demand.requestedLengthMm ?? demand.lengthMm }
+}
+
+// Hands the leftover of a pipe back to its shortened pieces, so each is only
+// as short as sharing the bar requires.
+export function lengthenCuts(pipe: Pipe): Pipe {
+  let free = pipe.remainingMm
+  const cuts = pipe.cuts.map(c => {
+    if (c.requestedLengthMm === undefined || free <= 0) return c
+    const lengthMm = Math.min(c.requestedLengthMm, Math.floor((c.lengthMm + free) * 10) / 10)
+    free -= lengthMm - c.lengthMm
+    return lengthMm >= c.requestedLengthMm ? { ...c, lengthMm, requestedLengthMm: undefined } : { ...c, lengthMm }
+  })
+  return { ...pipe, cuts, remainingMm: free }
+}
+
+/**
+ * Reads the shortest acceptable length of a piece of `lengthMm`: either the
+ * length itself or, with a leading minus, how much shorter it may be.
+ * Undefined for an exact piece, NaN for input that does not fit.
+ */
+export function parseMinLength(text: string, lengthMm: number, unit: LengthUnit): number | undefined {
+  const trimmed = text.trim()
+  if (trimmed === '') return undefined
+  const tolerance = /^[-−–]/.test(trimmed)
+  const value = parseLength(tolerance ? trimmed.slice(1) : trimmed, unit)
+  const min = tolerance ? lengthMm - value : value
+  if (!(value >= 0) || !(min > 0) || min > lengthMm) return NaN
+  return min < lengthMm ? min : undefined
+}
@@ -0,0 +1,172 @@
+export interface StockVariant {
+  id: string
+  lengthMm: number
+  /** Price per bar */
+  price?: number
+  /** Bars on hand; unlimited when absent */
+  available?: number
+}
+
+/** Offcut on the workshop rack, used before new bars are opened */
+export interface Remnant {
+  id: string
+  lengthMm: number
+}
+
+/** Opt-in joining of pieces that are longer than any bar */
+export interface SplitSettings {
+  /** Extra material each joint takes (coupling insertion, weld prep) */
+  jointAllowanceMm: number
+  /** Shortest segment worth joining */
+  minSegmentMm: number
+}
+
+export type PipeMaterialType = 'copper' | 'steel' | 'stainless' | 'aluminium' | 'pe' | 'pp' | 'pvc'
+
+/** Physical data of a pipe, from the material catalog or typed in */
+export interface PipeProperties {
+  materialType?: PipeMaterialType
+  /** Nominal size */
+  dn?: number
+  outerDiameterMm?: number
+  wallThicknessMm?: number
+  /** Derived from diameter, wall and material type when absent */
+  weightPerMeterKg?: number
+}
+
+export interface Material {
+  id: string
+  name: string
+  stocks: StockVariant[]
+  remnants: Remnant[]
+  /** Saw blade width lost per cut */
+  kerfMm: number
+  /** Clamping allowance at the start of each bar */
+  startWasteMm: number
+  /** Clamping allowance at the end of each bar */
+  endWasteMm: number
+  /** Price per metre for stock variants without a bar price */
+  pricePerMeter?: number
+  /** Labour cost per saw cut */
+  cutCost?: number
+  /** Over-length pieces are split when set, reported as too long otherwise */
+  splitting?: SplitSettings
+  pipe?: PipeProperties
+}
+
+/** Marks a piece as one part of a split over-length demand */
+export interface DemandSegment {
+  parentId: string
+  /** 1-based position along the original piece */
+  index: number
+  count: number
+  parentLengthMm: number
+}
+
+export interface Demand {
+  id: string
+  project: string
+  materialId: string
+  lengthMm: number
+  /** Shortest acceptable length; the plan may cut anywhere from here up to `lengthMm` */
+  minLengthMm?: number
+  /** Length asked for, on a planned piece that is cut shorter than that */
+  requestedLengthMm?: number
+  segment?: DemandSegment
+}
+
+export interface Pipe {
+  cuts: Demand[]
+  remainingMm: number
+  /** Stock variant the bar is bought as; absent for remnant pipes */
+  stockId?: string
+  /** Set when the pipe is an offcut from the remnant inventory */
+  remnantId?: string
+  stockLengthMm: number
+  usableMm: number
+  /** Changed by hand after optimization */
+  edited?: boolean
+  /** Already cut; kept as is when the plan is optimized again */
+  locked?: boolean
+}
+
+export type CutPlan = Record<string, Pipe[]>
+
+export type SolverMode = 'fast' | 'exact'
+
+/** What the optimizer minimizes when choosing between stock variants */
+export type Objective = 'waste' | 'cost'
+
+/**
+ * How new bars are filled: each piece onto the fullest pipe it fits on, onto
+ * the first one, or as few distinct patterns as possible cut repeatedly.
+ */
+export type PackingRule = 'best-fit' | 'first-fit' | 'patterns'
+
+/**
+ * How pieces of different projects may share a pipe: freely, never, only
+ * within a project group, or freely but with as few projects per pipe as
+ * possible without using more material.
+ */
+export type ProjectMixing = 'free' | 'separate' | 'groups' | 'minimize'
+
+/** How urgently a project needs its pieces when stock runs short */
+export interface ProjectPriority {
+  /** 1 is the most urgent; projects without one come last */
+  priority?: number
+  /** ISO date (YYYY-MM-DD); decides between projects of equal priority */
+  dueDate?: string
+}
+
+export interface SolverSettings {
+  mode: SolverMode
+  objective: Objective
+  packing?: PackingRule
+  /** Let new pieces use the leftover of locked pipes */
+  fillLocked?: boolean
+  projectMixing?: ProjectMixing
+  /** Group name per project for `groups`; projects without one stay on their own */
+  projectGroups?: Record<string, string>
+  /** Who gets the bars first when the stock on hand does not cover all demand */
+  projectPriorities?: Record<string, ProjectPriority>
+}
+
+export type UnassignedReason = 'too-long' | 'no-stock'
+
+export interface UnassignedDemand {
+  demand: Demand
+  reason: UnassignedReason
+}
+
+export interface OptimizeResult {
+  plan: CutPlan
+  /** Proven minimum number of new bars per material id */
+  lowerBounds: Record<string, number>
+  unassigned: UnassignedDemand[]
+  /** Plan without the project separation, to show what the separation costs */
+  unconstrained?: CutPlan
+}
+
+export interface OptimizeProgress {
+  /** Material groups finished so far */
+  done: number
+  total: number
+  materialId: string | null
+}
+
+export interface OptimizeOptions extends Partial<SolverSettings> {
+  onProgress?: (progress: OptimizeProgress) => void
+  /** Pipes to keep from an earlier plan, per material id */
+  locked?: CutPlan
+}
+
+/** Everything a job consists of; what gets stored and exchanged */
+export interface JobData {
+  materials: Material[]
+  demands: Demand[]
+  settings: SolverSettings
+  /** Offcuts at least this long are booked back as remnants */
+  minRemnantMm: number
+  /** Pipes that are already cut, per material id */
+  locked?: CutPlan
+}
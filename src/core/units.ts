@@ -0,0 +1,142 @@
+import { getLocale } from './i18n'
+import type { Locale } from './i18n'
+
+// Length input and output in metric and imperial units. Everything inside
+// the app stays in millimetres; inches are converted with the exact factor
+// and stored to 1/10000 mm, so a length entered in fractional inches shows
+// up again as the same fraction and parses back to the same value.
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft'
+
+export type UnitSystem = 'metric' | 'imperial'
+
+export interface DisplayUnits {
+  system: UnitSystem
+  /** Smallest inch fraction shown, e.g. 16 for 1/16" */
+  fraction: number
+}
+
+export const DEFAULT_DISPLAY_UNITS: DisplayUnits = { system: 'metric', fraction: 16 }
+
+export const INCH_FRACTIONS = [8, 16, 32, 64]
+
+export const MM_PER_INCH = 25.4
+
+export const UNIT_FACTORS: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: MM_PER_INCH,
+  ft: 12 * MM_PER_INCH,
+}
+
+function roundMm(mm: number): number {
+  return Math.round(mm * 10000) / 10000
+}
+
+/**
+ * Accepts "2500", "2,5", "2.5", "1.234,5" and "1,234.5". A lone separator
+ * before exactly three digits groups thousands the way the language writes
+ * them: "1.500" is 1500 in German, "1,500" in English.
+ */
+export function parseDecimal(value: string, locale: Locale = getLocale()): number {
+  let s = value.trim().replace(/\s/g, '')
+  if ((locale === 'de' ? /^[+-]?\d{1,3}(\.\d{3})+$/ : /^[+-]?\d{1,3}(,\d{3})+$/).test(s)) {
+    s = s.replace(/[.,]/g, '')
+  }
+  const comma = s.lastIndexOf(',')
+  const dot = s.lastIndexOf('.')
+  if (comma >= 0 && dot >= 0) {
+    s = comma > dot ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '')
+  } else if (comma >= 0) {
+    s = s.replace(',', '.')
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(s)) return NaN
+  return Number(s)
+}
+
+// ── Parsing ────────────────────────────────────────────────────────
+
+const FEET = /^(\d+(?:[.,]\d+)?)\s*(?:'(?!')|′|ft\b\.?)\s*/i
+const INCH_MARK = /\s*(?:"|″|''|in\b\.?)$/i
+// "3", "3.5", "3-5/8", "3 5/8" or "5/8"
+const INCHES = /^(?:(\d+(?:[.,]\d+)?)(?:(?:\s+|\s*-\s*)(\d+)\s*\/\s*(\d+))?|(\d+)\s*\/\s*(\d+))$/
+
+function parseInches(text: string): number {
+  const m = INCHES.exec(text)
+  if (!m) return NaN
+  const [whole, numerator, denominator] = m[4] !== undefined
+    ? [0, Number(m[4]), Number(m[5])]
+    : [parseDecimal(m[1]), Number(m[2] ?? 0), Number(m[3] ?? 1)]
+  return denominator > 0 ? whole + numerator / denominator : NaN
+}
+
+function isImperial(text: string): boolean {
+  return /['′"″]|\d\s*(?:ft|in)\b|\d\s*\/\s*\d/i.test(text)
+}
+
+const UNIT_NAMES: Record<string, LengthUnit> = {
+  mm: 'mm', cm: 'cm', m: 'm',
+  in: 'in', inch: 'in', zoll: 'in', '"': 'in',
+  ft: 'ft', feet: 'ft', foot: 'ft', 'fuß': 'ft', "'": 'ft',
+}
+
+export function parseUnit(value: string): LengthUnit | null {
+  return UNIT_NAMES[value.trim().toLowerCase()] ?? null
+}
+
+/**
+ * Length in millimetres, NaN if the text is not a length. Plain numbers are
+ * in `unit` (metric ones rounded to 0.1 mm); text with foot or inch marks
+ * (7' 3-5/8", 7ft 3in, 3 5/8") is read as imperial whatever the unit.
+ */
+export function parseLength(text: string, unit: LengthUnit): number {
+  const s = text.trim()
+  if (s === '') return NaN
+  if (!isImperial(s) && unit !== 'in') {
+    const value = parseDecimal(s)
+    return value >= 0 ? Math.round(value * UNIT_FACTORS[unit] * 10) / 10 : NaN
+  }
+
+  let rest = s
+  let feet = 0
+  const feetMatch = FEET.exec(rest)
+  if (feetMatch) {
+    feet = parseDecimal(feetMatch[1])
+    rest = rest.slice(feetMatch[0].length)
+  }
+  const marked = INCH_MARK.test(rest)
+  rest = rest.replace(INCH_MARK, '').trim()
+
+  let inches = 0
+  if (rest !== '') {
+    // A bare number with the feet unit selected is decimal feet
+    if (!feetMatch && !marked && unit === 'ft') feet = parseDecimal(rest)
+    else inches = parseInches(rest)
+  } else if (!feetMatch) {
+    return NaN
+  }
+  const total = feet * 12 + inches
+  return total >= 0 ? roundMm(total * MM_PER_INCH) : NaN
+}
+
+// ── Formatting ─────────────────────────────────────────────────────
+
+/** 7' 3-5/8", rounded to the nearest 1/`fraction` inch */
+export function formatImperial(mm: number, fraction: number): string {
+  const sign = mm < 0 ? '-' : ''
+  const steps = Math.round((Math.abs(mm) / MM_PER_INCH) * fraction)
+  const feet = Math.floor(steps / (12 * fraction))
+  const inchSteps = steps - feet * 12 * fraction
+  const whole = Math.floor(inchSteps / fraction)
+  let numerator = inchSteps - whole * fraction
+  let denominator = fraction
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2
+    denominator /= 2
+  }
+  const inches = numerator > 0
+    ? (whole > 0 ? `${whole}-${numerator}/${denominator}` : `${numerator}/${denominator}`)
+    : String(whole)
+  return feet > 0 ? `${sign}${feet}' ${inches}"` : `${sign}${inches}"`
+}
@@ -0,0 +1,23 @@
+import type { JobData } from './core/types'
+
+let idCounter = 0
+
+export function nextId(): string {
+  return String(++idCounter)
+}
+
+// Restored jobs carry ids from earlier sessions; move the counter past them so
+// nextId() never hands one out again. Locked pipes may still hold cuts whose
+// demand is gone; a new demand with such an id would count as already cut.
+export function reserveIds(data: JobData) {
+  const lockedCuts = Object.values(data.locked ?? {}).flatMap(pipes => pipes.flatMap(p => p.cuts))
+  const ids = [
+    ...data.materials.flatMap(m => [m.id, ...m.stocks.map(s => s.id), ...m.remnants.map(r => r.id)]),
+    ...data.demands.map(d => d.id),
+    ...lockedCuts.flatMap(c => (c.segment ? [c.id, c.segment.parentId] : [c.id])),
+  ]
+  for (const id of ids) {
+    const n = Number(id)
+    if (Number.isInteger(n) && n > idCounter) idCounter = n
+  }
+}
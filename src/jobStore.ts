@@ -0,0 +1,75 @@
+import type { JobData } from './core/types'
+
+// Jobs persisted in IndexedDB, one record per job.
+
+const DB_NAME = 'pipe-optimizer'
+const DB_VERSION = 1
+const STORE = 'jobs'
+const LAST_JOB_KEY = 'pipe-optimizer:last-job'
+
+export interface JobSummary {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface Job extends JobSummary {
+  data: JobData
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'id' })
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+  return dbPromise
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const req = fn(tx.objectStore(STORE))
+    tx.oncomplete = () => resolve(req.result)
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+export async function listJobs(): Promise<JobSummary[]> {
+  const jobs = await run<Job[]>('readonly', store => store.getAll())
+  return jobs
+    .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function loadJob(id: string): Promise<Job | null> {
+  const job = await run<Job | undefined>('readonly', store => store.get(id))
+  return job ?? null
+}
+
+export async function saveJob(job: Job): Promise<void> {
+  await run('readwrite', store => store.put(job))
+}
+
+export async function deleteJob(id: string): Promise<void> {
+  await run('readwrite', store => store.delete(id))
+}
+
+export function newJobId(): string {
+  return crypto.randomUUID()
+}
+
+export function getLastJobId(): string | null {
+  return localStorage.getItem(LAST_JOB_KEY)
+}
+
+export function setLastJobId(id: string) {
+  localStorage.setItem(LAST_JOB_KEY, id)
+}
@@ -0,0 +1,27 @@
+import type { CutPlan, Demand, Material, OptimizeProgress, OptimizeResult, SolverSettings } from './core/types'
+import { optimize } from './core/optimize'
+
+export interface OptimizerRequest {
+  materials: Material[]
+  demands: Demand[]
+  settings: SolverSettings
+  locked: CutPlan
+}
+
+export type OptimizerResponse =
+  | { type: 'progress'; progress: OptimizeProgress }
+  | { type: 'result'; result: OptimizeResult }
+
+function send(msg: OptimizerResponse) {
+  postMessage(msg)
+}
+
+addEventListener('message', (e: MessageEvent<OptimizerRequest>) => {
+  const { materials, demands, settings, locked } = e.data
+  const result = optimize(materials, demands, {
+    ...settings,
+    locked,
+    onProgress: progress => send({ type: 'progress', progress }),
+  })
+  send({ type: 'result', result })
+})
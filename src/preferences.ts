@@ -0,0 +1,53 @@
+import { DEFAULT_DISPLAY_UNITS, INCH_FRACTIONS } from './core/units'
+import type { DisplayUnits } from './core/units'
+import { isLocale } from './core/i18n'
+import type { Locale } from './core/i18n'
+import { STANDARD_CATALOG, parseCatalogFile, serializeCatalog } from './core/catalog'
+import type { CatalogEntry } from './core/catalog'
+
+// Per-browser view settings; unlike job data they are not part of a job
+const DISPLAY_UNITS_KEY = 'pipe-optimizer:display-units'
+const LOCALE_KEY = 'pipe-optimizer:locale'
+const CATALOG_KEY = 'pipe-optimizer:catalog'
+
+/** The stored language, else German unless the browser asks for another */
+export function loadLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_KEY)
+  if (isLocale(stored)) return stored
+  return navigator.language.toLowerCase().startsWith('de') ? 'de' : 'en'
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale)
+}
+
+export function loadDisplayUnits(): DisplayUnits {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(DISPLAY_UNITS_KEY) ?? 'null')
+    if (typeof stored === 'object' && stored !== null) {
+      const { system, fraction } = stored as Partial<DisplayUnits>
+      if ((system === 'metric' || system === 'imperial') && INCH_FRACTIONS.includes(fraction as number)) {
+        return { system, fraction: fraction as number }
+      }
+    }
+  } catch {
+    // Unreadable setting: fall back to the default
+  }
+  return DEFAULT_DISPLAY_UNITS
+}
+
+export function saveDisplayUnits(units: DisplayUnits) {
+  localStorage.setItem(DISPLAY_UNITS_KEY, JSON.stringify(units))
+}
+
+/** The stored material catalog, else the standard entries */
+export function loadCatalog(): CatalogEntry[] {
+  const stored = localStorage.getItem(CATALOG_KEY)
+  if (stored === null) return STANDARD_CATALOG
+  const parsed = parseCatalogFile(stored)
+  return parsed.ok ? parsed.entries : STANDARD_CATALOG
+}
+
+export function saveCatalog(entries: CatalogEntry[]) {
+  localStorage.setItem(CATALOG_KEY, serializeCatalog(entries))
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react'
+import type { CutPlan, Demand, Material, SolverSettings } from './core/types'
+import type { StrategyId, StrategyResult } from './core/strategies'
+import type { OptimizerRequest } from './optimizer.worker'
+import type { ComparisonResponse } from './comparison.worker'
+import { t } from './core/i18n'
+
+export interface ComparisonState {
+  /** Null until a run has finished for the current input */
+  results: StrategyResult[] | null
+  running: StrategyId | null
+  progress: { done: number; total: number } | null
+  error: string | null
+  run: () => void
+  cancel: () => void
+}
+
+// Runs all strategies on demand in their own worker, since the exact one can
+// take a while. Results belong to the input they were computed for and are
+// dropped once it changes.
+export function useComparison(
+  materials: Material[],
+  demands: Demand[],
+  settings: SolverSettings,
+  locked: CutPlan,
+): ComparisonState {
+  const [state, setState] = useState<{
+    key: string
+    results: StrategyResult[] | null
+    running: StrategyId | null
+    progress: { done: number; total: number } | null
+    error: string | null
+  }>({ key: '', results: null, running: null, progress: null, error: null })
+  const workerRef = useRef<Worker | null>(null)
+  const key = JSON.stringify([
+    materials,
+    demands,
+    settings.objective,
+    settings.fillLocked,
+    settings.projectMixing,
+    settings.projectGroups,
+    settings.projectPriorities,
+    locked,
+  ])
+
+  function cancel() {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setState(prev => ({ ...prev, running: null, progress: null }))
+  }
+
+  function run() {
+    workerRef.current?.terminate()
+    const worker = new Worker(new URL('./comparison.worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+
+    worker.onmessage = (e: MessageEvent<ComparisonResponse>) => {
+      const msg = e.data
+      if (msg.type === 'progress') {
+        setState(prev => ({ ...prev, running: msg.running, progress: { done: msg.done, total: msg.total } }))
+      } else {
+        worker.terminate()
+        workerRef.current = null
+        setState({ key, results: msg.results, running: null, progress: null, error: null })
+      }
+    }
+    worker.onerror = e => {
+      e.preventDefault()
+      worker.terminate()
+      workerRef.current = null
+      setState(prev => ({ ...prev, running: null, progress: null, error: e.message || t('common.unknownError') }))
+    }
+
+    setState({ key, results: null, running: null, progress: { done: 0, total: 0 }, error: null })
+    const request: OptimizerRequest = { materials, demands, settings, locked }
+    worker.postMessage(request)
+  }
+
+  // A run for an outdated input is not worth finishing
+  useEffect(() => {
+    if (workerRef.current && state.key !== key) cancel()
+  })
+
+  useEffect(() => () => workerRef.current?.terminate(), [])
+
+  const current = state.key === key
+  return {
+    results: current ? state.results : null,
+    running: current ? state.running : null,
+    progress: current ? state.progress : null,
+    error: current ? state.error : null,
+    run,
+    cancel,
+  }
+}
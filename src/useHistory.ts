@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react'
+import type { JobData } from './core/types'
+
+const HISTORY_LIMIT = 100
+// Repeated edits of the same kind within this time (typing into a field)
+// become one history entry.
+const COALESCE_MS = 1000
+
+interface HistoryEntry {
+  description: string
+  /** The job before (undo stack) or after (redo stack) the change */
+  data: JobData
+  at: number
+}
+
+export interface History {
+  /** Descriptions of the changes that can be undone, oldest first */
+  past: string[]
+  /** Descriptions of the changes that can be redone, next first */
+  future: string[]
+  /** Call before changing the job */
+  record: (description: string) => void
+  undo: (steps?: number) => void
+  redo: (steps?: number) => void
+  clear: () => void
+}
+
+// Undo/redo over whole job snapshots. The job is immutable state, so a
+// snapshot is just the current `data` object. `restore` puts one back.
+export function useHistory(data: JobData, restore: (data: JobData) => void): History {
+  const [stacks, setStacks] = useState<{ past: HistoryEntry[]; future: HistoryEntry[] }>({ past: [], future: [] })
+  const dataRef = useRef(data)
+  const restoreRef = useRef(restore)
+
+  useEffect(() => {
+    dataRef.current = data
+    restoreRef.current = restore
+  })
+
+  function record(description: string) {
+    const now = Date.now()
+    setStacks(prev => {
+      const last = prev.past[prev.past.length - 1]
+      if (last?.description === description && now - last.at < COALESCE_MS) {
+        return { past: [...prev.past.slice(0, -1), { ...last, at: now }], future: [] }
+      }
+      return {
+        past: [...prev.past, { description, data: dataRef.current, at: now }].slice(-HISTORY_LIMIT),
+        future: [],
+      }
+    })
+  }
+
+  // Moves `steps` entries from one stack to the other, restoring the job
+  // stored in the last one moved.
+  function shift(from: HistoryEntry[], to: HistoryEntry[], steps: number) {
+    const moved = from.slice(-steps).reverse()
+    let current = dataRef.current
+    const back = moved.map(entry => {
+      const swapped = { ...entry, data: current }
+      current = entry.data
+      return swapped
+    })
+    restoreRef.current(current)
+    dataRef.current = current
+    return { from: from.slice(0, from.length - moved.length), to: [...to, ...back] }
+  }
+
+  function undo(steps = 1) {
+    if (steps < 1 || stacks.past.length === 0) return
+    const { from, to } = shift(stacks.past, stacks.future, steps)
+    setStacks({ past: from, future: to })
+  }
+
+  function redo(steps = 1) {
+    if (steps < 1 || stacks.future.length === 0) return
+    const { from, to } = shift(stacks.future, stacks.past, steps)
+    setStacks({ past: to, future: from })
+  }
+
+  return {
+    past: stacks.past.map(e => e.description),
+    future: stacks.future.map(e => e.description).reverse(),
+    record,
+    undo,
+    redo,
+    clear: () => setStacks({ past: [], future: [] }),
+  }
+}
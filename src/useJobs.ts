@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react'
+import type { JobData } from './core/types'
+import { DEFAULT_MIN_REMNANT_MM } from './core/constants'
+import type { Job, JobSummary } from './jobStore'
+import { deleteJob, getLastJobId, listJobs, loadJob, newJobId, saveJob, setLastJobId } from './jobStore'
+import { reserveIds } from './ids'
+import { t } from './core/i18n'
+
+const AUTOSAVE_DELAY_MS = 300
+
+export const EMPTY_JOB: JobData = {
+  materials: [],
+  demands: [],
+  settings: { mode: 'fast', objective: 'waste' },
+  minRemnantMm: DEFAULT_MIN_REMNANT_MM,
+}
+
+export interface JobsState {
+  jobs: JobSummary[]
+  current: JobSummary | null
+  error: string | null
+  create: () => Promise<void>
+  rename: (name: string) => void
+  duplicate: () => Promise<void>
+  open: (id: string) => Promise<void>
+  remove: (id: string) => Promise<void>
+  importJob: (name: string, data: JobData) => Promise<void>
+}
+
+function snapshot(job: JobSummary, data: JobData): string {
+  return JSON.stringify({ name: job.name, data })
+}
+
+// Keeps the edited job in sync with the local job store. `data` is the live
+// job content; `apply` replaces it when another job is opened.
+export function useJobs(data: JobData, apply: (data: JobData) => void): JobsState {
+  const [jobs, setJobs] = useState<JobSummary[]>([])
+  const [current, setCurrent] = useState<JobSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const savedRef = useRef('')
+  const startedRef = useRef(false)
+  const applyRef = useRef(apply)
+
+  useEffect(() => {
+    applyRef.current = apply
+  })
+
+  function fail(e: unknown) {
+    setError(e instanceof Error ? e.message : String(e))
+  }
+
+  async function refresh() {
+    setJobs(await listJobs())
+  }
+
+  async function persist(job: JobSummary, content: JobData) {
+    const snap = snapshot(job, content)
+    if (snap === savedRef.current) return
+    savedRef.current = snap
+    await saveJob({ ...job, updatedAt: Date.now(), data: content })
+    await refresh()
+  }
+
+  function show(job: Job) {
+    reserveIds(job.data)
+    savedRef.current = snapshot(job, job.data)
+    applyRef.current(job.data)
+    setCurrent({ id: job.id, name: job.name, createdAt: job.createdAt, updatedAt: job.updatedAt })
+    setLastJobId(job.id)
+  }
+
+  async function createWith(name: string, content: JobData) {
+    const now = Date.now()
+    const job: Job = { id: newJobId(), name, createdAt: now, updatedAt: now, data: content }
+    await saveJob(job)
+    show(job)
+    await refresh()
+  }
+
+  useEffect(() => {
+    if (startedRef.current) return
+    startedRef.current = true
+    ;(async () => {
+      const list = await listJobs()
+      const last = getLastJobId()
+      const target = list.find(j => j.id === last) ?? list[0]
+      const job = target ? await loadJob(target.id) : null
+      if (job) {
+        show(job)
+        setJobs(list)
+      } else {
+        await createWith(t('job.defaultName', { number: 1 }), EMPTY_JOB)
+      }
+    })().catch(fail)
+  }, [])
+
+  // Autosave
+  useEffect(() => {
+    if (!current) return
+    const timer = setTimeout(() => {
+      persist(current, data).catch(fail)
+    }, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [current, data])
+
+  async function flush() {
+    if (current) await persist(current, data)
+  }
+
+  return {
+    jobs,
+    current,
+    error,
+    create: () => flush()
+      .then(() => createWith(t('job.defaultName', { number: jobs.length + 1 }), EMPTY_JOB))
+      .catch(fail),
+    rename: name => setCurrent(prev => prev && { ...prev, name }),
+    duplicate: () => flush()
+      .then(() => createWith(t('job.copyName', { name: current?.name ?? t('job.label') }), data))
+      .catch(fail),
+    open: id => flush()
+      .then(() => loadJob(id))
+      .then(job => { if (job) show(job) })
+      .catch(fail),
+    importJob: (name, content) => flush()
+      .then(() => createWith(name || t('job.importedName'), content))
+      .catch(fail),
+    remove: async id => {
+      try {
+        await deleteJob(id)
+        const list = await listJobs()
+        setJobs(list)
+        if (id !== current?.id) return
+        const next = list[0] ? await loadJob(list[0].id) : null
+        if (next) show(next)
+        else await createWith(t('job.defaultName', { number: 1 }), EMPTY_JOB)
+      } catch (e) {
+        fail(e)
+      }
+    },
+  }
+}
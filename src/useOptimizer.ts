@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from 'react'
+import type { CutPlan, Demand, Material, OptimizeProgress, OptimizeResult, SolverSettings } from './core/types'
+import type { OptimizerRequest, OptimizerResponse } from './optimizer.worker'
+import { t } from './core/i18n'
+
+export interface OptimizerState {
+  /** Last finished result; kept while a newer run is in progress */
+  result: OptimizeResult | null
+  running: boolean
+  progress: OptimizeProgress | null
+  error: string | null
+}
+
+const IDLE: OptimizerState = { result: null, running: false, progress: null, error: null }
+
+function createWorker(): Worker {
+  return new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' })
+}
+
+// Runs optimize() off the UI thread. The worker is reused between runs; a run
+// that is superseded by new input is cancelled by terminating its worker.
+export function useOptimizer(
+  materials: Material[],
+  demands: Demand[],
+  settings: SolverSettings,
+  locked: CutPlan,
+): OptimizerState {
+  const [state, setState] = useState<OptimizerState>(IDLE)
+  const workerRef = useRef<Worker | null>(null)
+
+  useEffect(() => {
+    if (demands.length === 0) {
+      setState(IDLE)
+      return
+    }
+
+    const worker = workerRef.current ?? createWorker()
+    workerRef.current = worker
+    let finished = false
+
+    worker.onmessage = (e: MessageEvent<OptimizerResponse>) => {
+      const msg = e.data
+      if (msg.type === 'progress') {
+        setState(prev => ({ ...prev, progress: msg.progress }))
+      } else {
+        finished = true
+        setState({ result: msg.result, running: false, progress: null, error: null })
+      }
+    }
+    worker.onerror = e => {
+      e.preventDefault()
+      finished = true
+      worker.terminate()
+      workerRef.current = null
+      setState(prev => ({ ...prev, running: false, progress: null, error: e.message || t('common.unknownError') }))
+    }
+
+    setState(prev => ({ ...prev, running: true, progress: null, error: null }))
+    const request: OptimizerRequest = { materials, demands, settings, locked }
+    worker.postMessage(request)
+
+    return () => {
+      if (!finished) {
+        worker.terminate()
+        workerRef.current = null
+      }
+    }
+  }, [materials, demands, settings, locked])
+
+  useEffect(() => () => workerRef.current?.terminate(), [])
+
+  return state
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Bundles the command-line interface for Node; see src/cli/main.ts.
+export default defineConfig({
+  build: {
+    ssr: 'src/cli/main.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'pipe-optimizer.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})